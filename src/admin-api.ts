@@ -0,0 +1,193 @@
+import type * as http from 'node:http'
+import { isAuthorized, readJsonBody, sendError, sendJson } from './http-utils'
+import type { WatchList } from './watch-list'
+
+/** 管理 API の認証トークン（未設定の場合は管理 API を無効化） */
+const ADMIN_API_TOKEN = process.env.ADMIN_API_TOKEN ?? ''
+
+/** 管理 API のパスの接頭辞 */
+const ADMIN_PATH_PREFIX = '/admin/'
+
+/** 監視対象ユーザーの一覧のパス */
+const USERS_PATH = '/admin/users'
+
+/**
+ * 監視対象ユーザーを管理する HTTP API
+ *
+ * Authorization: Bearer <ADMIN_API_TOKEN> で認証されたリクエストのみを受け付ける。
+ *
+ * - GET /admin/users: 監視対象ユーザーとフレンドでない監視対象ユーザーの一覧を取得する
+ * - POST /admin/users: 監視対象ユーザーを追加する（ボディ: {"userId": "usr_..."}）
+ * - DELETE /admin/users/:userId: 監視対象ユーザーを削除する
+ */
+export class AdminApi {
+  private watchList: WatchList
+  private onUserAdded: (userId: string) => Promise<boolean>
+  private getNotFriendIds: () => string[]
+
+  /**
+   * AdminApi を初期化する
+   *
+   * @param watchList 監視対象ユーザーの一覧
+   * @param onUserAdded ユーザーを追加した場合のコールバック（初期状態を取得できた場合は true を返す）
+   * @param getNotFriendIds フレンドでない監視対象ユーザーの ID を返す関数
+   */
+  constructor(
+    watchList: WatchList,
+    onUserAdded: (userId: string) => Promise<boolean>,
+    getNotFriendIds: () => string[]
+  ) {
+    this.watchList = watchList
+    this.onUserAdded = onUserAdded
+    this.getNotFriendIds = getNotFriendIds
+
+    if (ADMIN_API_TOKEN === '') {
+      console.log('[ADMIN] ADMIN_API_TOKEN is not set, admin API is disabled')
+    }
+  }
+
+  /**
+   * 管理 API のリクエストを処理する
+   *
+   * @param request HTTP リクエスト
+   * @param response HTTP レスポンス
+   * @param url 解析済みのリクエスト URL
+   * @returns リクエストを処理した場合は true
+   */
+  async handle(
+    request: http.IncomingMessage,
+    response: http.ServerResponse,
+    url: URL
+  ): Promise<boolean> {
+    if (ADMIN_API_TOKEN === '' || !url.pathname.startsWith(ADMIN_PATH_PREFIX)) {
+      return false
+    }
+
+    if (!isAuthorized(request, ADMIN_API_TOKEN)) {
+      response.setHeader('WWW-Authenticate', 'Bearer')
+      sendError(response, 401, 'Unauthorized')
+      return true
+    }
+
+    if (url.pathname === USERS_PATH) {
+      switch (request.method) {
+        case 'GET': {
+          this.handleListUsers(response)
+          return true
+        }
+        case 'POST': {
+          await this.handleAddUser(request, response)
+          return true
+        }
+        default: {
+          response.setHeader('Allow', 'GET, POST')
+          sendError(response, 405, 'Method Not Allowed')
+          return true
+        }
+      }
+    }
+
+    if (url.pathname.startsWith(`${USERS_PATH}/`)) {
+      let userId: string
+      try {
+        userId = decodeURIComponent(url.pathname.slice(USERS_PATH.length + 1))
+      } catch {
+        sendError(response, 400, 'Invalid user ID')
+        return true
+      }
+      if (request.method !== 'DELETE') {
+        response.setHeader('Allow', 'DELETE')
+        sendError(response, 405, 'Method Not Allowed')
+        return true
+      }
+      this.handleRemoveUser(response, userId)
+      return true
+    }
+
+    sendError(response, 404, 'Not Found')
+    return true
+  }
+
+  /**
+   * 監視対象ユーザーとフレンドでない監視対象ユーザーの一覧を返す
+   *
+   * @param response HTTP レスポンス
+   */
+  private handleListUsers(response: http.ServerResponse): void {
+    sendJson(response, 200, {
+      userIds: this.watchList.getUserIds(),
+      notFriends: this.getNotFriendIds(),
+    })
+  }
+
+  /**
+   * 監視対象ユーザーを追加する
+   *
+   * @param request HTTP リクエスト
+   * @param response HTTP レスポンス
+   */
+  private async handleAddUser(
+    request: http.IncomingMessage,
+    response: http.ServerResponse
+  ): Promise<void> {
+    let body: unknown
+    try {
+      body = await readJsonBody(request)
+    } catch (error) {
+      sendError(
+        response,
+        400,
+        error instanceof Error ? error.message : 'Invalid request body'
+      )
+      return
+    }
+
+    const userId =
+      typeof body === 'object' && body !== null
+        ? (body as Record<string, unknown>).userId
+        : undefined
+    if (typeof userId !== 'string' || !userId.startsWith('usr_')) {
+      sendError(response, 400, 'userId must be a VRChat user ID (usr_...)')
+      return
+    }
+
+    if (!this.watchList.add(userId)) {
+      sendJson(response, 200, { userId, added: false })
+      return
+    }
+
+    // 初期状態を取得してから応答する（通知は送信しない）
+    // 取得中に例外が発生した場合は、監視対象に残らないよう追加を取り消す
+    let seeded: boolean
+    try {
+      seeded = await this.onUserAdded(userId)
+    } catch (error) {
+      this.watchList.remove(userId)
+      console.error(
+        `[ADMIN] Failed to initialize ${userId}, the user was not added:`,
+        error
+      )
+      sendError(response, 500, 'Failed to initialize the user')
+      return
+    }
+    sendJson(response, 201, { userId, added: true, seeded })
+  }
+
+  /**
+   * 監視対象ユーザーを削除する
+   *
+   * @param response HTTP レスポンス
+   * @param userId ユーザー ID
+   */
+  private handleRemoveUser(
+    response: http.ServerResponse,
+    userId: string
+  ): void {
+    if (!this.watchList.remove(userId)) {
+      sendError(response, 404, 'User is not watched')
+      return
+    }
+
+    sendJson(response, 200, { userId, removed: true })
+  }
+}
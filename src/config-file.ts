@@ -0,0 +1,413 @@
+import * as fs from 'node:fs'
+import path from 'node:path'
+import { parse as parseYaml } from 'yaml'
+import type { NotifierConfig, NotifierType, UserSettings } from './config'
+import {
+  NOTIFICATION_TYPES,
+  validateRoutingRule,
+  type RoutingRule,
+} from './notification-router'
+import type { NotificationType } from './notifier'
+
+/** 通知先の種類の一覧 */
+const NOTIFIER_TYPES: readonly string[] = [
+  'discord',
+  'webhook',
+  'slack',
+  'ntfy',
+  'gotify',
+]
+
+/**
+ * 設定ファイルのユーザーごとの設定
+ */
+export interface ConfigFileUser {
+  /** ユーザー ID */
+  id: string
+  /** 通知に表示するニックネーム */
+  nickname?: string
+  /** すべての通知をミュートするかどうか */
+  muted?: boolean
+  /** ミュートする通知の種類 */
+  mutedEvents?: NotificationType[]
+  /** このユーザーの通知を送信する Discord Webhook URL */
+  webhook?: string
+  /** このユーザーの通知を送信する通知先名 */
+  destinations?: string[]
+}
+
+/**
+ * 設定ファイルのデータ構造
+ */
+export interface ConfigFileData {
+  /** 監視対象ユーザーの設定 */
+  users?: ConfigFileUser[]
+  /** 追加の通知先 */
+  notifiers?: Record<string, unknown>[]
+  /** 通知のルーティングルール */
+  rules?: RoutingRule[]
+  /** すべてのフレンドを監視対象にするかどうか（環境変数 WATCH_ALL_FRIENDS より優先） */
+  watchAllFriends?: boolean
+  /** すべてのフレンドを監視する場合に除外するユーザー ID */
+  excludedUsers?: string[]
+}
+
+/**
+ * 文字列が HTTP(S) の URL かどうかを判定する
+ *
+ * @param value 判定する文字列
+ * @returns HTTP(S) の URL の場合は true
+ */
+export function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' || url.protocol === 'http:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 通知先の設定を検証する
+ *
+ * @param data 検証するデータ
+ * @param path エラーメッセージに含めるデータの位置
+ * @returns エラーメッセージの配列（問題がない場合は空配列）
+ */
+export function validateNotifierConfig(data: unknown, path: string): string[] {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return [`${path}: must be an object`]
+  }
+
+  const errors: string[] = []
+  const obj = data as Record<string, unknown>
+
+  if (typeof obj.name !== 'string' || obj.name === '') {
+    errors.push(`${path}.name: must be a non-empty string`)
+  }
+  if (typeof obj.type !== 'string' || !NOTIFIER_TYPES.includes(obj.type)) {
+    errors.push(`${path}.type: must be one of ${NOTIFIER_TYPES.join(', ')}`)
+  }
+  if (typeof obj.url !== 'string' || !isHttpUrl(obj.url)) {
+    errors.push(`${path}.url: invalid URL`)
+  }
+  for (const key of ['token', 'mention'] as const) {
+    if (obj[key] !== undefined && typeof obj[key] !== 'string') {
+      errors.push(`${path}.${key}: must be a string`)
+    }
+  }
+  if (obj.default !== undefined && typeof obj.default !== 'boolean') {
+    errors.push(`${path}.default: must be a boolean`)
+  }
+  if (obj.type === 'gotify' && typeof obj.token !== 'string') {
+    errors.push(`${path}.token: required for gotify`)
+  }
+
+  return errors
+}
+
+/**
+ * 検証済みの通知先の設定を NotifierConfig に変換する
+ *
+ * @param data 検証済みの通知先の設定
+ * @returns 通知先の設定
+ */
+export function toNotifierConfig(
+  data: Record<string, unknown>
+): NotifierConfig {
+  return {
+    name: data.name as string,
+    type: data.type as NotifierType,
+    url: data.url as string,
+    token: data.token as string | undefined,
+    mention: data.mention as string | undefined,
+    isDefault: data.default === true,
+  }
+}
+
+/**
+ * ユーザー専用の Webhook の通知先名を取得する
+ *
+ * @param userId ユーザー ID
+ * @returns 通知先名
+ */
+function getUserWebhookName(userId: string): string {
+  return `user:${userId}`
+}
+
+/**
+ * 設定ファイルのユーザー設定を検証する
+ *
+ * @param data 検証するデータ
+ * @param destinationNames 定義されている通知先名
+ * @param path エラーメッセージに含めるデータの位置
+ * @returns エラーメッセージの配列（問題がない場合は空配列）
+ */
+function validateConfigFileUser(
+  data: unknown,
+  destinationNames: string[],
+  path: string
+): string[] {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return [`${path}: must be an object`]
+  }
+
+  const errors: string[] = []
+  const obj = data as Record<string, unknown>
+
+  if (typeof obj.id !== 'string' || !obj.id.startsWith('usr_')) {
+    errors.push(`${path}.id: must be a VRChat user ID (usr_...)`)
+  }
+  if (obj.nickname !== undefined && typeof obj.nickname !== 'string') {
+    errors.push(`${path}.nickname: must be a string`)
+  }
+  if (obj.muted !== undefined && typeof obj.muted !== 'boolean') {
+    errors.push(`${path}.muted: must be a boolean`)
+  }
+  if (obj.mutedEvents !== undefined) {
+    if (Array.isArray(obj.mutedEvents)) {
+      for (const [index, type] of obj.mutedEvents.entries()) {
+        if (typeof type !== 'string' || !NOTIFICATION_TYPES.includes(type)) {
+          errors.push(`${path}.mutedEvents[${index}]: unknown event type`)
+        }
+      }
+    } else {
+      errors.push(`${path}.mutedEvents: must be an array`)
+    }
+  }
+  if (
+    obj.webhook !== undefined &&
+    (typeof obj.webhook !== 'string' || !isHttpUrl(obj.webhook))
+  ) {
+    errors.push(`${path}.webhook: invalid URL`)
+  }
+  if (obj.destinations !== undefined) {
+    if (Array.isArray(obj.destinations)) {
+      for (const [index, name] of obj.destinations.entries()) {
+        if (typeof name !== 'string' || !destinationNames.includes(name)) {
+          errors.push(`${path}.destinations[${index}]: unknown destination`)
+        }
+      }
+    } else {
+      errors.push(`${path}.destinations: must be an array`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * 設定ファイルを読み込む
+ *
+ * 拡張子が `.yaml` / `.yml` の場合は YAML、それ以外は JSON として解析する
+ *
+ * @param filePath 設定ファイルのパス
+ * @returns 解析結果（未検証）
+ * @throws ファイルの読み込みまたは解析に失敗した場合
+ */
+export function readConfigFile(filePath: string): unknown {
+  const content = fs.readFileSync(filePath, 'utf8')
+  const extension = path.extname(filePath).toLowerCase()
+
+  if (extension === '.yaml' || extension === '.yml') {
+    return parseYaml(content) as unknown
+  }
+  return JSON.parse(content) as unknown
+}
+
+/**
+ * 設定ファイルの内容を検証する
+ *
+ * @param data 検証するデータ
+ * @param externalDestinationNames 環境変数で定義されている通知先名
+ * @returns エラーメッセージの配列（問題がない場合は空配列）
+ */
+export function validateConfigFile(
+  data: unknown,
+  externalDestinationNames: string[]
+): string[] {
+  if (data === null || data === undefined) {
+    // 空のファイルは何も設定しないものとして扱う
+    return []
+  }
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    return ['root: must be an object']
+  }
+
+  const errors: string[] = []
+  const obj = data as Record<string, unknown>
+  const destinationNames = [...externalDestinationNames]
+
+  for (const key of Object.keys(obj)) {
+    if (
+      ![
+        'users',
+        'notifiers',
+        'rules',
+        'watchAllFriends',
+        'excludedUsers',
+      ].includes(key)
+    ) {
+      errors.push(`${key}: unknown key`)
+    }
+  }
+
+  if (obj.notifiers !== undefined) {
+    if (Array.isArray(obj.notifiers)) {
+      for (const [index, notifier] of obj.notifiers.entries()) {
+        const notifierPath = `notifiers[${index}]`
+        errors.push(...validateNotifierConfig(notifier, notifierPath))
+
+        const name = (notifier as Record<string, unknown> | null)?.name
+        if (typeof name === 'string') {
+          if (destinationNames.includes(name)) {
+            errors.push(`${notifierPath}.name: duplicate notifier name`)
+          }
+          destinationNames.push(name)
+        }
+      }
+    } else {
+      errors.push('notifiers: must be an array')
+    }
+  }
+
+  if (obj.users !== undefined) {
+    if (Array.isArray(obj.users)) {
+      const userIds = new Set<string>()
+      for (const [index, user] of obj.users.entries()) {
+        const userPath = `users[${index}]`
+        errors.push(...validateConfigFileUser(user, destinationNames, userPath))
+
+        const id = (user as Record<string, unknown> | null)?.id
+        if (typeof id === 'string') {
+          if (userIds.has(id)) {
+            errors.push(`${userPath}.id: duplicate user ID`)
+          }
+          userIds.add(id)
+        }
+      }
+    } else {
+      errors.push('users: must be an array')
+    }
+  }
+
+  if (
+    obj.watchAllFriends !== undefined &&
+    typeof obj.watchAllFriends !== 'boolean'
+  ) {
+    errors.push('watchAllFriends: must be a boolean')
+  }
+
+  if (
+    obj.excludedUsers !== undefined &&
+    (!Array.isArray(obj.excludedUsers) ||
+      !obj.excludedUsers.every((id) => typeof id === 'string'))
+  ) {
+    errors.push('excludedUsers: must be an array of strings')
+  }
+
+  if (obj.rules !== undefined) {
+    if (Array.isArray(obj.rules)) {
+      for (const [index, rule] of obj.rules.entries()) {
+        errors.push(
+          ...validateRoutingRule(rule, destinationNames, `rules[${index}]`)
+        )
+      }
+    } else {
+      errors.push('rules: must be an array')
+    }
+  }
+
+  return errors
+}
+
+/**
+ * 設定ファイルで定義された通知先を取得する
+ *
+ * ユーザーごとの Webhook は `user:<ユーザー ID>` という名前の Discord 通知先になる
+ *
+ * @param file 検証済みの設定ファイルの内容
+ * @returns 通知先の設定の配列
+ */
+export function getConfigFileNotifiers(file: ConfigFileData): NotifierConfig[] {
+  const notifiers = (file.notifiers ?? []).map((notifier) =>
+    toNotifierConfig(notifier)
+  )
+
+  for (const user of file.users ?? []) {
+    if (user.webhook) {
+      notifiers.push({
+        name: getUserWebhookName(user.id),
+        type: 'discord',
+        url: user.webhook,
+        isDefault: false,
+      })
+    }
+  }
+
+  return notifiers
+}
+
+/**
+ * 設定ファイルのユーザー設定とルールからルーティングルールを組み立てる
+ *
+ * ミュート設定、ユーザーごとの送信先、設定ファイルのルールの順に評価される
+ *
+ * @param file 検証済みの設定ファイルの内容
+ * @returns ルーティングルールの配列
+ */
+export function getConfigFileRoutingRules(file: ConfigFileData): RoutingRule[] {
+  const muteRules: RoutingRule[] = []
+  const userRules: RoutingRule[] = []
+
+  for (const user of file.users ?? []) {
+    if (user.muted) {
+      muteRules.push({
+        name: `mute ${user.id}`,
+        userIds: [user.id],
+        drop: true,
+      })
+    } else if (user.mutedEvents && user.mutedEvents.length > 0) {
+      muteRules.push({
+        name: `mute ${user.id}`,
+        userIds: [user.id],
+        eventTypes: user.mutedEvents,
+        drop: true,
+      })
+    }
+
+    const destinations = [
+      ...(user.destinations ?? []),
+      ...(user.webhook ? [getUserWebhookName(user.id)] : []),
+    ]
+    if (destinations.length > 0) {
+      userRules.push({
+        name: `user ${user.id}`,
+        userIds: [user.id],
+        destinations,
+      })
+    }
+  }
+
+  return [...muteRules, ...userRules, ...(file.rules ?? [])]
+}
+
+/**
+ * 設定ファイルからユーザーごとの設定を取得する
+ *
+ * @param file 検証済みの設定ファイルの内容
+ * @returns ユーザー ID をキーとしたユーザーごとの設定
+ */
+export function getConfigFileUserSettings(
+  file: ConfigFileData
+): Record<string, UserSettings> {
+  const users: Record<string, UserSettings> = {}
+
+  for (const user of file.users ?? []) {
+    users[user.id] = {
+      nickname: user.nickname,
+    }
+  }
+
+  return users
+}
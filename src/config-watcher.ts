@@ -0,0 +1,107 @@
+import * as fs from 'node:fs'
+import { loadConfig, type Config } from './config'
+
+/** ファイル変更の確認間隔（ミリ秒） */
+const WATCH_INTERVAL_MS = 2000
+
+/** 変更検知後に再読み込みするまでの待機時間（ミリ秒） */
+const RELOAD_DEBOUNCE_MS = 500
+
+/**
+ * 設定ファイルの変更を監視して再読み込みするクラス
+ *
+ * 再読み込みした設定が不正な場合はエラーをログに出力し、
+ * 現在の設定をそのまま使い続ける
+ */
+export class ConfigWatcher {
+  private filePath: string
+  private onReload: (config: Config) => void
+  private reloadTimeout: NodeJS.Timeout | null = null
+  private isWatching = false
+
+  /**
+   * ConfigWatcher を初期化する
+   *
+   * @param filePath 監視する設定ファイルのパス
+   * @param onReload 再読み込みに成功した場合のコールバック
+   */
+  constructor(filePath: string, onReload: (config: Config) => void) {
+    this.filePath = filePath
+    this.onReload = onReload
+  }
+
+  /**
+   * 監視を開始する
+   *
+   * エディタによる置き換え保存や Docker のバインドマウントでも
+   * 変更を検知できるよう、fs.watch ではなく fs.watchFile を使用する
+   */
+  start(): void {
+    if (this.isWatching) {
+      return
+    }
+
+    fs.watchFile(
+      this.filePath,
+      { interval: WATCH_INTERVAL_MS },
+      (current, previous) => {
+        if (current.mtimeMs === previous.mtimeMs) {
+          return
+        }
+        this.scheduleReload()
+      }
+    )
+    this.isWatching = true
+
+    console.log(`[CONFIG] Watching ${this.filePath} for changes`)
+  }
+
+  /**
+   * 監視を停止する
+   */
+  stop(): void {
+    if (this.reloadTimeout) {
+      clearTimeout(this.reloadTimeout)
+      this.reloadTimeout = null
+    }
+
+    if (this.isWatching) {
+      fs.unwatchFile(this.filePath)
+      this.isWatching = false
+    }
+  }
+
+  /**
+   * 再読み込みをスケジュールする（debounce 付き）
+   */
+  private scheduleReload(): void {
+    if (this.reloadTimeout) {
+      clearTimeout(this.reloadTimeout)
+    }
+
+    this.reloadTimeout = setTimeout(() => {
+      this.reloadTimeout = null
+      this.reload()
+    }, RELOAD_DEBOUNCE_MS)
+  }
+
+  /**
+   * 設定を再読み込みする
+   */
+  private reload(): void {
+    console.log(`[CONFIG] ${this.filePath} changed, reloading...`)
+
+    let config: Config
+    try {
+      config = loadConfig()
+    } catch (error) {
+      console.error(
+        '[CONFIG] Failed to reload configuration, keeping current configuration:',
+        error instanceof Error ? error.message : error
+      )
+      return
+    }
+
+    this.onReload(config)
+  }
+}
@@ -0,0 +1,64 @@
+import { parseNumberEnv } from './config'
+
+const ENV_NAME = 'TEST_NUMBER_ENV'
+
+afterEach(() => {
+  Reflect.deleteProperty(process.env, ENV_NAME)
+})
+
+describe('parseNumberEnv', () => {
+  test.each([undefined, ''])(
+    'returns the default value when the variable is %p',
+    (value: string | undefined) => {
+      if (value !== undefined) {
+        process.env[ENV_NAME] = value
+      }
+      const errors: string[] = []
+
+      expect(parseNumberEnv(ENV_NAME, 5, errors)).toBe(5)
+      expect(errors).toStrictEqual([])
+    }
+  )
+
+  test('parses a positive number', () => {
+    process.env[ENV_NAME] = '1.5'
+    const errors: string[] = []
+
+    expect(parseNumberEnv(ENV_NAME, 5, errors)).toBe(1.5)
+    expect(errors).toStrictEqual([])
+  })
+
+  test.each(['abc', '0', '-1', 'Infinity'])(
+    'rejects %p and falls back to the default value',
+    (value: string) => {
+      process.env[ENV_NAME] = value
+      const errors: string[] = []
+
+      expect(parseNumberEnv(ENV_NAME, 5, errors)).toBe(5)
+      expect(errors).toStrictEqual([`${ENV_NAME} must be a positive number`])
+    }
+  )
+
+  test('accepts 0 only with allowZero', () => {
+    process.env[ENV_NAME] = '0'
+    const errors: string[] = []
+
+    expect(parseNumberEnv(ENV_NAME, 5, errors, { allowZero: true })).toBe(0)
+    expect(errors).toStrictEqual([])
+
+    process.env[ENV_NAME] = '-1'
+    expect(parseNumberEnv(ENV_NAME, 5, errors, { allowZero: true })).toBe(5)
+    expect(errors).toStrictEqual([`${ENV_NAME} must be a non-negative number`])
+  })
+
+  test('rejects a fraction when an integer is required', () => {
+    process.env[ENV_NAME] = '2.5'
+    const errors: string[] = []
+
+    expect(parseNumberEnv(ENV_NAME, 3, errors, { integer: true })).toBe(3)
+    expect(errors).toStrictEqual([`${ENV_NAME} must be a positive integer`])
+
+    process.env[ENV_NAME] = '2'
+    expect(parseNumberEnv(ENV_NAME, 3, [], { integer: true })).toBe(2)
+  })
+})
@@ -1,3 +1,24 @@
+import * as fs from 'node:fs'
+import {
+  getConfigFileNotifiers,
+  getConfigFileRoutingRules,
+  getConfigFileUserSettings,
+  isHttpUrl,
+  readConfigFile,
+  toNotifierConfig,
+  validateConfigFile,
+  validateNotifierConfig,
+  type ConfigFileData,
+} from './config-file'
+import { validateRoutingRule, type RoutingRule } from './notification-router'
+
+/**
+ * 2FA コードの入力方法
+ * - stdin: コンソールで入力する
+ * - http: ヘルスチェックサーバーの POST /auth/two-factor で送信する
+ */
+export type TwoFactorInput = 'stdin' | 'http'
+
 /**
  * VRChat 認証情報の設定
  */
@@ -8,14 +29,120 @@ interface VRChatConfig {
   password: string
   /** TOTP シークレット（設定すると自動 2FA） */
   totpSecret?: string
+  /** TOTP シークレットを設定しない場合の 2FA コードの入力方法 */
+  twoFactorInput: TwoFactorInput
+  /** HTTP で 2FA コードの送信を待つ時間（ミリ秒） */
+  twoFactorTimeoutMs: number
+  /** セッション Cookie を暗号化して保存する鍵（未設定の場合は平文で保存） */
+  cookieEncryptionKey?: string
 }
 
 /**
- * Discord 通知の設定
+ * WebSocket イベントの取りこぼしを検知する照合の設定
  */
-interface DiscordConfig {
-  /** Discord Webhook URL */
-  webhookUrl: string
+export interface ReconcileConfig {
+  /** 照合の間隔（ミリ秒、0 の場合は照合しない） */
+  intervalMs: number
+  /** 照合で使用できる 1 時間あたりの VRChat API 呼び出し回数 */
+  apiBudgetPerHour: number
+  /** degraded 状態（WebSocket を利用できない間）のポーリング間隔（ミリ秒、0 の場合はポーリングしない） */
+  degradedPollIntervalMs: number
+  /** degraded 状態のポーリングで使用できる 1 時間あたりの VRChat API 呼び出し回数 */
+  degradedPollApiBudgetPerHour: number
+}
+
+/**
+ * WebSocket 接続の死活監視の設定
+ */
+export interface WebSocketLivenessConfig {
+  /** イベント未受信で接続が止まっていると判定するしきい値（ミリ秒、0 の場合は判定しない） */
+  staleThresholdMs: number
+  /** API による疎通確認の間隔（ミリ秒、0 の場合は確認しない） */
+  probeIntervalMs: number
+}
+
+/**
+ * Location 変化の履歴の設定
+ */
+export interface LocationHistoryConfig {
+  /** 履歴の保持期間（ミリ秒） */
+  retentionMs: number
+  /** ユーザーごとの最大保持件数 */
+  maxEntriesPerUser: number
+}
+
+/**
+ * 運用者向けアラートの設定
+ */
+export interface OperatorAlertConfig {
+  /** 接続障害としてアラートを送信する再接続の試行回数 */
+  reconnectThreshold: number
+  /** 認証失敗としてアラートを送信する連続した認証失敗の回数 */
+  authFailureThreshold: number
+  /** アラートを送信する最小間隔（ミリ秒） */
+  minIntervalMs: number
+}
+
+/**
+ * 通知先の種類
+ */
+export type NotifierType = 'discord' | 'webhook' | 'slack' | 'ntfy' | 'gotify'
+
+/**
+ * 通知先の設定
+ */
+export interface NotifierConfig {
+  /** 通知先の名前 */
+  name: string
+  /** 通知先の種類 */
+  type: NotifierType
+  /** 送信先 URL（ntfy の場合はトピックを含む URL） */
+  url: string
+  /** 認証トークン（webhook / ntfy / gotify） */
+  token?: string
+  /** 通知に付けるメンション（例: `<@&ロール ID>`） */
+  mention?: string
+  /** ルーティングルールに一致しない通知の送信先にするかどうか */
+  isDefault: boolean
+}
+
+/**
+ * 通知先ごとの環境変数の定義
+ */
+interface NotifierEnvironmentVariables {
+  /** 通知先の種類（通知先の名前としても使用する） */
+  type: NotifierType
+  /** 送信先 URL の環境変数名 */
+  urlVariable: string
+  /** 認証トークンの環境変数名 */
+  tokenVariable?: string
+  /** メンションの環境変数名 */
+  mentionVariable?: string
+}
+
+/** 通知先ごとの環境変数 */
+const NOTIFIER_ENVIRONMENT_VARIABLES: NotifierEnvironmentVariables[] = [
+  {
+    type: 'discord',
+    urlVariable: 'DISCORD_WEBHOOK_URL',
+    mentionVariable: 'DISCORD_MENTION',
+  },
+  {
+    type: 'webhook',
+    urlVariable: 'WEBHOOK_URL',
+    tokenVariable: 'WEBHOOK_TOKEN',
+  },
+  { type: 'slack', urlVariable: 'SLACK_WEBHOOK_URL' },
+  { type: 'ntfy', urlVariable: 'NTFY_URL', tokenVariable: 'NTFY_TOKEN' },
+  { type: 'gotify', urlVariable: 'GOTIFY_URL', tokenVariable: 'GOTIFY_TOKEN' },
+]
+
+/**
+ * 監視対象ユーザーごとの設定
+ */
+export interface UserSettings {
+  /** 通知に表示するニックネーム */
+  nickname?: string
 }
 
 /**
@@ -24,10 +151,38 @@ interface DiscordConfig {
 export interface Config {
   /** VRChat 認証情報 */
   vrchat: VRChatConfig
-  /** Discord 通知設定 */
-  discord: DiscordConfig
+  /** 有効な通知先の設定 */
+  notifiers: NotifierConfig[]
+  /** 通知のルーティングルール */
+  routingRules: RoutingRule[]
+  /** 運用者向けアラートの送信先の通知先名 */
+  adminNotifiers: string[]
+  /** 運用者向けアラートの設定 */
+  operatorAlert: OperatorAlertConfig
   /** 監視対象ユーザー ID の配列 */
   targetUserIds: string[]
+  /** すべてのフレンドを監視対象にするかどうか */
+  watchAllFriends: boolean
+  /** すべてのフレンドを監視する場合に除外するユーザー ID の配列 */
+  excludedUserIds: string[]
+  /** ユーザー ID をキーとしたユーザーごとの設定 */
+  users: Record<string, UserSettings>
+  /** 設定ファイルのパス（使用しない場合は null） */
+  configFilePath: string | null
+  /** フレンド状態の確認間隔（すべてのフレンドを監視する場合はフレンド一覧の更新間隔、ミリ秒） */
+  friendListRefreshIntervalMs: number
+  /** 照合の設定 */
+  reconcile: ReconcileConfig
+  /** 送信待ち通知の最大保持期間（ミリ秒） */
+  notificationOutboxMaxAgeMs: number
+  /** 通知を集約するために保留する時間（ミリ秒、0 の場合は集約しない） */
+  notificationCoalesceWindowMs: number
+  /** ワールド情報のキャッシュの有効期間（ミリ秒） */
+  worldCacheTtlMs: number
+  /** Location 変化の履歴の設定 */
+  locationHistory: LocationHistoryConfig
+  /** WebSocket 接続の死活監視の設定 */
+  websocketLiveness: WebSocketLivenessConfig
 }
 
 /**
@@ -46,6 +201,51 @@ function getRequiredEnv(name: string): string {
   return value
 }
 
+/**
+ * 数値の環境変数の読み込み方法
+ */
+export interface NumberEnvOptions {
+  /** 0 を許可するかどうか（0 で機能を無効にする設定に使用する） */
+  allowZero?: boolean
+  /** 整数のみ許可するかどうか */
+  integer?: boolean
+}
+
+/**
+ * 数値の環境変数を読み込んで検証する
+ * 不正な値で間隔が NaN や負の値にならないよう、正の数（allowZero の場合は 0 以上）のみ許可する
+ *
+ * @param name 環境変数名
+ * @param defaultValue 未設定の場合の値
+ * @param errors 検証エラーの追加先
+ * @param options 読み込み方法
+ * @returns 値（未設定または不正な場合は defaultValue）
+ */
+export function parseNumberEnv(
+  name: string,
+  defaultValue: number,
+  errors: string[],
+  options: NumberEnvOptions = {}
+): number {
+  const value = process.env[name]
+  if (!value) {
+    return defaultValue
+  }
+
+  const parsed = Number(value)
+  const valid =
+    Number.isFinite(parsed) &&
+    (options.allowZero ? parsed >= 0 : parsed > 0) &&
+    (!options.integer || Number.isInteger(parsed))
+  if (!valid) {
+    errors.push(
+      `${name} must be a ${options.allowZero ? 'non-negative' : 'positive'} ${options.integer ? 'integer' : 'number'}`
+    )
+    return defaultValue
+  }
+  return parsed
+}
+
 /**
  * 環境変数の検証結果
  */
@@ -56,6 +256,148 @@ interface ValidationResult {
   errors: string[]
 }
 
+/**
+ * JSON 形式の環境変数を読み込む
+ *
+ * @param name 環境変数名
+ * @param errors 解析エラーの追加先
+ * @returns 解析結果（未設定または解析に失敗した場合は undefined）
+ */
+function parseJsonEnv(name: string, errors: string[] = []): unknown {
+  const value = process.env[name]
+  if (!value) {
+    return undefined
+  }
+
+  try {
+    return JSON.parse(value) as unknown
+  } catch {
+    errors.push(`${name} must be valid JSON`)
+    return undefined
+  }
+}
+
+/**
+ * NOTIFICATION_DESTINATIONS 環境変数から追加の通知先を読み込む
+ *
+ * 検証済みであることを前提とする
+ *
+ * @returns 追加の通知先の設定の配列
+ */
+function loadNotificationDestinations(): NotifierConfig[] {
+  const parsed = parseJsonEnv('NOTIFICATION_DESTINATIONS')
+  if (!Array.isArray(parsed)) {
+    return []
+  }
+
+  return parsed.map((item: Record<string, unknown>) => toNotifierConfig(item))
+}
+
+/**
+ * NOTIFIERS 環境変数から有効にする通知先の名前を取得する
+ *
+ * @returns 通知先の名前の配列（未設定の場合は null）
+ */
+function parseNotifierSelection(): string[] | null {
+  const value = process.env.NOTIFIERS
+  if (!value) {
+    return null
+  }
+
+  return value
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => name !== '')
+}
+
+/**
+ * 環境変数から有効な通知先の設定を読み込む
+ *
+ * NOTIFIERS が設定されている場合はその通知先のみ、
+ * 設定されていない場合は URL が設定されているすべての通知先を有効にする
+ *
+ * @returns 有効な通知先の設定の配列
+ */
+function loadNotifierConfigs(): NotifierConfig[] {
+  const selectedNames = parseNotifierSelection()
+  const notifiers: NotifierConfig[] = []
+
+  for (const definition of NOTIFIER_ENVIRONMENT_VARIABLES) {
+    const url = process.env[definition.urlVariable]
+    if (!url) {
+      continue
+    }
+    if (selectedNames && !selectedNames.includes(definition.type)) {
+      continue
+    }
+
+    notifiers.push({
+      name: definition.type,
+      type: definition.type,
+      url,
+      token: definition.tokenVariable
+        ? process.env[definition.tokenVariable]
+        : undefined,
+      mention: definition.mentionVariable
+        ? process.env[definition.mentionVariable]
+        : undefined,
+      isDefault: true,
+    })
+  }
+
+  return [...notifiers, ...loadNotificationDestinations()]
+}
+
+/**
+ * カンマ区切りの環境変数を解析する
+ *
+ * @param name 環境変数名
+ * @returns 値の配列（未設定の場合は空配列）
+ */
+function parseListEnv(name: string): string[] {
+  return (process.env[name] ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item !== '')
+}
+
+/**
+ * COOKIE_ENCRYPTION_KEY または COOKIE_ENCRYPTION_KEY_FILE からセッション Cookie の暗号化鍵を読み込む
+ *
+ * @param errors 読み込みエラーの追加先
+ * @returns 暗号化鍵（未設定または読み込みに失敗した場合は undefined）
+ */
+function loadCookieEncryptionKey(errors: string[]): string | undefined {
+  const key = process.env.COOKIE_ENCRYPTION_KEY
+  const keyFile = process.env.COOKIE_ENCRYPTION_KEY_FILE
+  if (key && keyFile) {
+    errors.push(
+      'COOKIE_ENCRYPTION_KEY and COOKIE_ENCRYPTION_KEY_FILE cannot be set at the same time'
+    )
+    return undefined
+  }
+  if (!keyFile) {
+    // compose から未設定の環境変数が空文字列で渡されるため、空文字列は未設定として扱う
+    return key === '' ? undefined : key
+  }
+
+  // Docker の secrets などで渡されたファイルは末尾に改行を含むことがある
+  let fileKey: string
+  try {
+    fileKey = fs.readFileSync(keyFile, 'utf8').trim()
+  } catch (error) {
+    errors.push(
+      `COOKIE_ENCRYPTION_KEY_FILE: failed to read ${keyFile} (${error instanceof Error ? error.message : String(error)})`
+    )
+    return undefined
+  }
+  if (fileKey === '') {
+    errors.push(`COOKIE_ENCRYPTION_KEY_FILE: ${keyFile} is empty`)
+    return undefined
+  }
+  return fileKey
+}
+
 /**
  * 環境変数を検証する
  *
@@ -65,12 +407,7 @@ function validateEnvironmentVariables(): ValidationResult {
   const errors: string[] = []
 
   // 必須環境変数のチェック
-  const requiredVariables = [
-    'VRCHAT_USERNAME',
-    'VRCHAT_PASSWORD',
-    'DISCORD_WEBHOOK_URL',
-    'TARGET_USER_IDS',
-  ]
+  const requiredVariables = ['VRCHAT_USERNAME', 'VRCHAT_PASSWORD']
 
   for (const variable of requiredVariables) {
     if (!process.env[variable]) {
@@ -87,6 +424,23 @@ function validateEnvironmentVariables(): ValidationResult {
     }
   }
 
+  // WATCH_ALL_FRIENDS の形式チェック
+  const watchAllFriends = process.env.WATCH_ALL_FRIENDS
+  if (watchAllFriends && !['true', 'false'].includes(watchAllFriends)) {
+    errors.push('WATCH_ALL_FRIENDS must be true or false')
+  }
+
+  // VRCHAT_TWO_FACTOR_INPUT の形式チェック
+  const twoFactorInput = process.env.VRCHAT_TWO_FACTOR_INPUT
+  if (twoFactorInput && !['stdin', 'http'].includes(twoFactorInput)) {
+    errors.push('VRCHAT_TWO_FACTOR_INPUT must be stdin or http')
+  }
+  if (twoFactorInput === 'http' && !process.env.ADMIN_API_TOKEN) {
+    errors.push(
+      'ADMIN_API_TOKEN is required when VRCHAT_TWO_FACTOR_INPUT is http'
+    )
+  }
+
   // DISCORD_WEBHOOK_URL の形式チェック
   const webhookUrl = process.env.DISCORD_WEBHOOK_URL
   if (
@@ -96,6 +450,74 @@ function validateEnvironmentVariables(): ValidationResult {
     errors.push('DISCORD_WEBHOOK_URL must be a valid Discord webhook URL')
   }
 
+  // 通知先 URL の形式チェック
+  for (const { urlVariable } of NOTIFIER_ENVIRONMENT_VARIABLES) {
+    const url = process.env[urlVariable]
+    if (url && !isHttpUrl(url)) {
+      errors.push(`${urlVariable} must be a valid HTTP(S) URL`)
+    }
+  }
+
+  // Gotify はアプリケーショントークンが必須
+  if (process.env.GOTIFY_URL && !process.env.GOTIFY_TOKEN) {
+    errors.push('GOTIFY_TOKEN is required when GOTIFY_URL is set')
+  }
+
+  // NOTIFIERS で選択された通知先のチェック
+  const configuredTypes = new Set<string>(
+    NOTIFIER_ENVIRONMENT_VARIABLES.filter(
+      ({ urlVariable }) => process.env[urlVariable]
+    ).map(({ type }) => type)
+  )
+  const selectedNames = parseNotifierSelection()
+  if (selectedNames) {
+    for (const name of selectedNames) {
+      if (!configuredTypes.has(name)) {
+        errors.push(`NOTIFIERS contains unconfigured notifier: ${name}`)
+      }
+    }
+  }
+
+  // NOTIFICATION_DESTINATIONS のチェック
+  const destinationNames = selectedNames ?? [...configuredTypes]
+  const destinations = parseJsonEnv('NOTIFICATION_DESTINATIONS', errors)
+  if (destinations !== undefined) {
+    if (Array.isArray(destinations)) {
+      for (const [index, destination] of destinations.entries()) {
+        const path = `NOTIFICATION_DESTINATIONS[${index}]`
+        errors.push(...validateNotifierConfig(destination, path))
+
+        const name = (destination as Record<string, unknown> | null)?.name
+        if (typeof name === 'string') {
+          if (destinationNames.includes(name) || configuredTypes.has(name)) {
+            errors.push(`${path}.name: duplicate notifier name`)
+          }
+          destinationNames.push(name)
+        }
+      }
+    } else {
+      errors.push('NOTIFICATION_DESTINATIONS must be a JSON array')
+    }
+  }
+
+  // NOTIFICATION_RULES のチェック
+  const rules = parseJsonEnv('NOTIFICATION_RULES', errors)
+  if (rules !== undefined) {
+    if (Array.isArray(rules)) {
+      for (const [index, rule] of rules.entries()) {
+        errors.push(
+          ...validateRoutingRule(
+            rule,
+            destinationNames,
+            `NOTIFICATION_RULES[${index}]`
+          )
+        )
+      }
+    } else {
+      errors.push('NOTIFICATION_RULES must be a JSON array')
+    }
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -103,35 +525,244 @@ function validateEnvironmentVariables(): ValidationResult {
 }
 
 /**
- * 環境変数から設定を読み込む
+ * 設定ファイルを読み込んで検証する
+ *
+ * @param filePath 設定ファイルのパス
+ * @param destinationNames 環境変数で定義されている通知先名
+ * @param errors 検証エラーの追加先
+ * @returns 設定ファイルの内容（読み込みまたは検証に失敗した場合は null）
+ */
+function loadConfigFile(
+  filePath: string,
+  destinationNames: string[],
+  errors: string[]
+): ConfigFileData | null {
+  let data: unknown
+  try {
+    data = readConfigFile(filePath)
+  } catch (error) {
+    errors.push(
+      `${filePath}: failed to read (${error instanceof Error ? error.message : String(error)})`
+    )
+    return null
+  }
+
+  const fileErrors = validateConfigFile(data, destinationNames)
+  if (fileErrors.length > 0) {
+    errors.push(...fileErrors.map((error) => `${filePath}: ${error}`))
+    return null
+  }
+
+  return (data ?? {}) as ConfigFileData
+}
+
+/**
+ * 環境変数と設定ファイルから設定を読み込む
+ *
+ * 設定ファイル（CONFIG_FILE_PATH）は任意で、YAML または JSON 形式で
+ * 監視対象ユーザーごとのニックネーム・送信先・ミュート設定、
+ * 追加の通知先、ルーティングルールを定義できる
  *
  * @returns アプリケーション設定
- * @throws 必須環境変数が設定されていない場合
+ * @throws 設定が不正な場合
  */
 export function loadConfig(): Config {
-  const validation = validateEnvironmentVariables()
+  const errors = validateEnvironmentVariables().errors
 
-  if (!validation.valid) {
-    for (const error of validation.errors) {
+  const environmentNotifiers = loadNotifierConfigs()
+  const configFilePath = process.env.CONFIG_FILE_PATH ?? null
+  const file = configFilePath
+    ? loadConfigFile(
+        configFilePath,
+        environmentNotifiers.map((notifier) => notifier.name),
+        errors
+      )
+    : null
+
+  const environmentUserIds = parseListEnv('TARGET_USER_IDS')
+  const targetUserIds = [
+    ...new Set([
+      ...environmentUserIds,
+      ...(file?.users ?? []).map((user) => user.id),
+    ]),
+  ]
+  const watchAllFriends =
+    file?.watchAllFriends ?? process.env.WATCH_ALL_FRIENDS === 'true'
+  const excludedUserIds = [
+    ...new Set([
+      ...parseListEnv('EXCLUDED_USER_IDS'),
+      ...(file?.excludedUsers ?? []),
+    ]),
+  ]
+  const notifiers = [
+    ...environmentNotifiers,
+    ...(file ? getConfigFileNotifiers(file) : []),
+  ]
+  const adminNotifiers = parseListEnv('ADMIN_NOTIFIERS')
+  const twoFactorTimeoutMinutes = parseNumberEnv(
+    'VRCHAT_TWO_FACTOR_TIMEOUT_MINUTES',
+    10,
+    errors
+  )
+  const operatorAlertReconnectThreshold = parseNumberEnv(
+    'OPERATOR_ALERT_RECONNECT_THRESHOLD',
+    5,
+    errors,
+    { integer: true }
+  )
+  const operatorAlertAuthFailureThreshold = parseNumberEnv(
+    'OPERATOR_ALERT_AUTH_FAILURE_THRESHOLD',
+    2,
+    errors,
+    { integer: true }
+  )
+  const operatorAlertMinIntervalMinutes = parseNumberEnv(
+    'OPERATOR_ALERT_MIN_INTERVAL_MINUTES',
+    60,
+    errors,
+    { allowZero: true }
+  )
+  const cookieEncryptionKey = loadCookieEncryptionKey(errors)
+  const friendListRefreshIntervalMinutes = parseNumberEnv(
+    'FRIEND_LIST_REFRESH_INTERVAL_MINUTES',
+    60,
+    errors
+  )
+  const reconcileIntervalMinutes = parseNumberEnv(
+    'RECONCILE_INTERVAL_MINUTES',
+    15,
+    errors,
+    { allowZero: true }
+  )
+  const reconcileApiBudgetPerHour = parseNumberEnv(
+    'RECONCILE_API_BUDGET_PER_HOUR',
+    60,
+    errors,
+    { integer: true }
+  )
+  const degradedPollIntervalSeconds = parseNumberEnv(
+    'DEGRADED_POLL_INTERVAL_SECONDS',
+    60,
+    errors,
+    { allowZero: true }
+  )
+  const degradedPollApiBudgetPerHour = parseNumberEnv(
+    'DEGRADED_POLL_API_BUDGET_PER_HOUR',
+    240,
+    errors,
+    { integer: true }
+  )
+  const notificationOutboxMaxAgeHours = parseNumberEnv(
+    'NOTIFICATION_OUTBOX_MAX_AGE_HOURS',
+    24,
+    errors
+  )
+  const notificationCoalesceWindowSeconds = parseNumberEnv(
+    'NOTIFICATION_COALESCE_WINDOW_SECONDS',
+    10,
+    errors,
+    { allowZero: true }
+  )
+  const worldCacheTtlHours = parseNumberEnv('WORLD_CACHE_TTL_HOURS', 24, errors)
+  const locationHistoryRetentionDays = parseNumberEnv(
+    'LOCATION_HISTORY_RETENTION_DAYS',
+    90,
+    errors,
+    { integer: true }
+  )
+  const locationHistoryMaxEntriesPerUser = parseNumberEnv(
+    'LOCATION_HISTORY_MAX_ENTRIES_PER_USER',
+    5000,
+    errors,
+    { integer: true }
+  )
+  const websocketStaleThresholdMinutes = parseNumberEnv(
+    'WEBSOCKET_STALE_THRESHOLD_MINUTES',
+    30,
+    errors,
+    { allowZero: true }
+  )
+  const websocketProbeIntervalMinutes = parseNumberEnv(
+    'WEBSOCKET_PROBE_INTERVAL_MINUTES',
+    5,
+    errors,
+    { allowZero: true }
+  )
+
+  // 設定ファイルの読み込みに失敗した場合は、下記のチェックで誤ったエラーを出さない
+  if (errors.length === 0) {
+    if (targetUserIds.length === 0 && !watchAllFriends) {
+      errors.push(
+        'At least one target user must be configured (TARGET_USER_IDS, users in config file or WATCH_ALL_FRIENDS)'
+      )
+    }
+    if (notifiers.length === 0) {
+      errors.push(
+        'At least one notifier must be configured (DISCORD_WEBHOOK_URL, WEBHOOK_URL, SLACK_WEBHOOK_URL, NTFY_URL, GOTIFY_URL, NOTIFICATION_DESTINATIONS or notifiers in config file)'
+      )
+    }
+    for (const name of adminNotifiers) {
+      if (!notifiers.some((notifier) => notifier.name === name)) {
+        errors.push(`ADMIN_NOTIFIERS contains unconfigured notifier: ${name}`)
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    for (const error of errors) {
       console.error(`[CONFIG] ${error}`)
     }
     throw new Error('Invalid configuration')
   }
 
-  const targetUserIds = getRequiredEnv('TARGET_USER_IDS')
-    .split(',')
-    .map((id) => id.trim())
-    .filter((id) => id !== '')
-
   return {
     vrchat: {
       username: getRequiredEnv('VRCHAT_USERNAME'),
       password: getRequiredEnv('VRCHAT_PASSWORD'),
       totpSecret: process.env.VRCHAT_TOTP_SECRET,
+      // 未設定の場合は、コンソールで入力できない（TTY でない）ときに
+      // 管理 API の認証トークンが設定されていれば HTTP で受け付ける
+      twoFactorInput: process.env.VRCHAT_TWO_FACTOR_INPUT
+        ? (process.env.VRCHAT_TWO_FACTOR_INPUT as TwoFactorInput)
+        : !process.stdin.isTTY && process.env.ADMIN_API_TOKEN
+          ? 'http'
+          : 'stdin',
+      twoFactorTimeoutMs: twoFactorTimeoutMinutes * 60 * 1000,
+      cookieEncryptionKey,
     },
-    discord: {
-      webhookUrl: getRequiredEnv('DISCORD_WEBHOOK_URL'),
+    notifiers,
+    routingRules: [
+      ...(file ? getConfigFileRoutingRules(file) : []),
+      ...((parseJsonEnv('NOTIFICATION_RULES') ?? []) as RoutingRule[]),
+    ],
+    adminNotifiers,
+    operatorAlert: {
+      reconnectThreshold: operatorAlertReconnectThreshold,
+      authFailureThreshold: operatorAlertAuthFailureThreshold,
+      minIntervalMs: operatorAlertMinIntervalMinutes * 60 * 1000,
     },
     targetUserIds,
+    watchAllFriends,
+    excludedUserIds,
+    users: file ? getConfigFileUserSettings(file) : {},
+    configFilePath,
+    friendListRefreshIntervalMs: friendListRefreshIntervalMinutes * 60 * 1000,
+    reconcile: {
+      intervalMs: reconcileIntervalMinutes * 60 * 1000,
+      apiBudgetPerHour: reconcileApiBudgetPerHour,
+      degradedPollIntervalMs: degradedPollIntervalSeconds * 1000,
+      degradedPollApiBudgetPerHour,
+    },
+    notificationOutboxMaxAgeMs: notificationOutboxMaxAgeHours * 60 * 60 * 1000,
+    notificationCoalesceWindowMs: notificationCoalesceWindowSeconds * 1000,
+    worldCacheTtlMs: worldCacheTtlHours * 60 * 60 * 1000,
+    locationHistory: {
+      retentionMs: locationHistoryRetentionDays * 24 * 60 * 60 * 1000,
+      maxEntriesPerUser: locationHistoryMaxEntriesPerUser,
+    },
+    websocketLiveness: {
+      staleThresholdMs: websocketStaleThresholdMinutes * 60 * 1000,
+      probeIntervalMs: websocketProbeIntervalMinutes * 60 * 1000,
+    },
   }
 }
@@ -0,0 +1,133 @@
+import type { NotifierConfig } from './config'
+import { DiscordNotifier } from './discord-notifier'
+import type { NotificationPayload } from './notifier'
+
+/**
+ * テスト用の DiscordNotifier を作成する
+ * Webhook ごとのレート制限を共有しないよう、テストごとに別の URL を使う
+ *
+ * @param webhookId Webhook URL に含める ID
+ * @returns DiscordNotifier
+ */
+function createNotifier(webhookId: string): DiscordNotifier {
+  const config: NotifierConfig = {
+    name: 'discord',
+    type: 'discord',
+    url: `https://discord.com/api/webhooks/${webhookId}/token`,
+    isDefault: true,
+  }
+  return new DiscordNotifier(config)
+}
+
+/**
+ * オンライン通知を作成する
+ *
+ * @param displayName 表示名
+ * @returns オンライン通知
+ */
+function online(displayName: string): NotificationPayload {
+  return {
+    type: 'online',
+    params: { displayName, userId: 'usr_target' },
+  }
+}
+
+let fetchMock: jest.SpyInstance<Promise<Response>, Parameters<typeof fetch>>
+
+beforeEach(() => {
+  fetchMock = jest.spyOn(globalThis, 'fetch')
+})
+
+afterEach(() => {
+  fetchMock.mockRestore()
+})
+
+describe('DiscordNotifier.getBatchSize', () => {
+  test('batches at most 10 embeds into one message', () => {
+    const notifier = createNotifier('batch-count')
+    const payloads = Array.from({ length: 12 }, (_, index) =>
+      online(`user ${index}`)
+    )
+
+    expect(notifier.getBatchSize(payloads)).toBe(10)
+    expect(notifier.getBatchSize(payloads.slice(0, 3))).toBe(3)
+  })
+
+  test('stops before the embeds exceed 6000 characters in total', () => {
+    const notifier = createNotifier('batch-characters')
+    const payloads = Array.from({ length: 4 }, () => online('x'.repeat(2500)))
+
+    expect(notifier.getBatchSize(payloads)).toBe(2)
+  })
+
+  test('still sends a single notification that exceeds the limit', () => {
+    const notifier = createNotifier('batch-oversized')
+
+    expect(notifier.getBatchSize([online('x'.repeat(7000))])).toBe(1)
+  })
+})
+
+describe('DiscordNotifier.notifyBatch', () => {
+  test('sends the batch as embeds of one message', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }))
+    const notifier = createNotifier('send')
+
+    await notifier.notifyBatch([online('first'), online('second')])
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    const [, init] = fetchMock.mock.calls[0]
+    const body = JSON.parse(init?.body as string) as { embeds: unknown[] }
+    expect(body.embeds).toHaveLength(2)
+  })
+
+  test('retries after the retry_after of a 429 response', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        Response.json(
+          { message: 'rate limited', retry_after: 0.01 },
+          { status: 429 }
+        )
+      )
+      .mockResolvedValueOnce(new Response(null, { status: 204 }))
+    const consoleWarn = jest
+      .spyOn(console, 'warn')
+      .mockImplementation(() => undefined)
+    const notifier = createNotifier('retry')
+
+    try {
+      await notifier.notifyBatch([online('busy')])
+
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      expect(consoleWarn).toHaveBeenCalledTimes(1)
+    } finally {
+      consoleWarn.mockRestore()
+    }
+  })
+
+  test('fails without waiting when the retry_after is too long', async () => {
+    fetchMock.mockResolvedValue(
+      Response.json(
+        { message: 'rate limited', retry_after: 120 },
+        { status: 429 }
+      )
+    )
+    const notifier = createNotifier('retry-too-long')
+
+    await expect(notifier.notifyBatch([online('busy')])).rejects.toThrow(
+      'Rate limited by Discord for 120 seconds'
+    )
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  test('fails on other error statuses without retrying', async () => {
+    fetchMock.mockResolvedValue(
+      Response.json({ message: 'bad request' }, { status: 400 })
+    )
+    const notifier = createNotifier('bad-request')
+
+    await expect(notifier.notifyBatch([online('busy')])).rejects.toThrow(
+      'Request failed with status 400'
+    )
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+})
@@ -1,195 +1,316 @@
-import { Discord, type DiscordEmbed } from '@book000/node-utils'
-import type { Config } from './config'
-
-/** 通知の種類 */
-export type NotificationType = 'location-change' | 'online' | 'offline'
-
-/** Location 変更通知のパラメータ */
-export interface LocationChangeParams {
-  /** ユーザーの表示名 */
-  displayName: string
-  /** ユーザー ID */
-  userId: string
-  /** 前回の Location */
-  previousLocation: string | null
-  /** 現在の Location */
-  currentLocation: string
-  /** ワールド名 */
-  worldName?: string
-  /** サムネイル URL */
-  thumbnailUrl?: string
+import type { DiscordEmbed } from '@book000/node-utils'
+import type { NotifierConfig } from './config'
+import {
+  buildNotificationMessage,
+  MessageNotifier,
+  NOTIFIER_REQUEST_TIMEOUT_MS,
+  type NotificationMessage,
+  type NotificationPayload,
+} from './notifier'
+
+/** 1 メッセージに含められる Embed の最大数 */
+const MAX_EMBEDS_PER_MESSAGE = 10
+
+/** 1 メッセージに含められる Embed の合計文字数の上限 */
+const MAX_EMBED_CHARACTERS_PER_MESSAGE = 6000
+
+/** 429 を受け取った場合の最大再試行回数 */
+const MAX_RATE_LIMIT_RETRIES = 5
+
+/** レート制限で待機する最大時間（ミリ秒、超える場合は送信失敗として扱う） */
+const MAX_RATE_LIMIT_WAIT_MS = 60 * 1000
+
+/** Retry-After が取得できない場合の待機時間（ミリ秒） */
+const DEFAULT_RETRY_AFTER_MS = 1000
+
+/**
+ * 指定したミリ秒だけ待機する
+ *
+ * @param ms 待機するミリ秒
+ */
+async function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * 秒数を表す文字列をミリ秒に変換する
+ *
+ * @param value 秒数を表す文字列
+ * @returns ミリ秒（変換できない場合は null）
+ */
+function parseSeconds(value: string | null): number | null {
+  if (value === null) {
+    return null
+  }
+
+  const seconds = Number(value)
+  return Number.isFinite(seconds) && seconds >= 0
+    ? Math.ceil(seconds * 1000)
+    : null
 }
 
-/** オンライン通知のパラメータ */
-export interface OnlineParams {
-  /** ユーザーの表示名 */
-  displayName: string
-  /** ユーザー ID */
-  userId: string
+/**
+ * Embed の文字数を数える（Discord の合計文字数制限の対象となる項目のみ）
+ *
+ * @param embed Embed
+ * @returns 文字数
+ */
+function countEmbedCharacters(embed: DiscordEmbed): number {
+  let count = embed.title?.length ?? 0
+  for (const field of embed.fields ?? []) {
+    count += field.name.length + field.value.length
+  }
+  return count
 }
 
-/** オフライン通知のパラメータ */
-export interface OfflineParams {
-  /** ユーザーの表示名 */
-  displayName: string
-  /** ユーザー ID */
-  userId: string
+/**
+ * Webhook ごとのレート制限と送信順序を管理するクラス
+ *
+ * 同じ Webhook への送信を 1 つずつ順番に行い、
+ * X-RateLimit-* ヘッダーと 429 応答に従って次の送信を待機させる
+ */
+class WebhookRateLimiter {
+  private queue: Promise<void> = Promise.resolve()
+  private blockedUntil = 0
+
+  /**
+   * 送信処理を順番待ちに追加する
+   *
+   * @param task 送信処理
+   * @returns 送信処理の結果
+   */
+  async schedule(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task)
+    // 失敗しても後続の送信は続ける
+    this.queue = run.catch(() => undefined)
+    await run
+  }
+
+  /**
+   * レート制限が解除されるまで待機する
+   */
+  async waitUntilAvailable(): Promise<void> {
+    const waitMs = this.blockedUntil - Date.now()
+    if (waitMs > 0) {
+      await delay(waitMs)
+    }
+  }
+
+  /**
+   * 指定した時間だけ送信を停止する
+   *
+   * @param ms 停止する時間（ミリ秒）
+   */
+  block(ms: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + ms)
+  }
+
+  /**
+   * レスポンスの X-RateLimit-* ヘッダーから次の送信可能時刻を更新する
+   *
+   * @param response Webhook のレスポンス
+   */
+  update(response: Response): void {
+    if (response.headers.get('X-RateLimit-Remaining') !== '0') {
+      return
+    }
+
+    const resetAfterMs = parseSeconds(
+      response.headers.get('X-RateLimit-Reset-After')
+    )
+    if (resetAfterMs !== null) {
+      this.block(resetAfterMs)
+    }
+  }
 }
 
-/** Embed の色 */
-const COLORS = {
-  /** Location 変更（青） */
-  locationChange: 0x00_aa_ff,
-  /** オンライン（緑） */
-  online: 0x00_ff_00,
-  /** オフライン（グレー） */
-  offline: 0x80_80_80,
-} as const
+/** Webhook URL をキーとしたレート制限（同じ Webhook を使う通知先で共有する） */
+const rateLimiters = new Map<string, WebhookRateLimiter>()
+
+/**
+ * Webhook のレート制限を取得する
+ *
+ * @param url Webhook URL
+ * @returns レート制限
+ */
+function getRateLimiter(url: string): WebhookRateLimiter {
+  let limiter = rateLimiters.get(url)
+  if (!limiter) {
+    limiter = new WebhookRateLimiter()
+    rateLimiters.set(url, limiter)
+  }
+  return limiter
+}
 
 /**
  * Discord 通知を送信するクラス
+ *
+ * 同じ Webhook への送信はレート制限に従って順番に行い、
+ * 溜まった通知は最大 10 件の Embed にまとめて 1 メッセージで送信する
  */
-export class DiscordNotifier {
-  private discord: Discord
+export class DiscordNotifier extends MessageNotifier {
+  private webhookUrl: string
+  private rateLimiter: WebhookRateLimiter
 
   /**
    * DiscordNotifier を初期化する
    *
-   * @param config アプリケーション設定
+   * @param config 通知先の設定
    */
-  constructor(config: Config) {
-    this.discord = new Discord({
-      webhookUrl: config.discord.webhookUrl,
-    })
+  constructor(config: NotifierConfig) {
+    super(config)
+    this.webhookUrl = config.url
+    this.rateLimiter = getRateLimiter(config.url)
   }
 
   /**
-   * Location 変更通知を送信する
+   * Embed を送信する
    *
-   * @param params 通知パラメータ
+   * @param message 通知メッセージ
    */
-  async notifyLocationChange(params: LocationChangeParams): Promise<void> {
-    const embed: DiscordEmbed = {
-      title: '\u{1F4CD} ロケーション変更',
-      color: COLORS.locationChange,
-      fields: [
-        {
-          name: 'ユーザー',
-          value: params.displayName,
-          inline: true,
-        },
-        {
-          name: '前の場所',
-          value: params.previousLocation ?? 'N/A',
-          inline: true,
-        },
-        {
-          name: '現在の場所',
-          value: params.currentLocation,
-          inline: true,
-        },
-      ],
-      timestamp: new Date().toISOString(),
-    }
+  protected async send(message: NotificationMessage): Promise<void> {
+    await this.sendEmbeds([this.toEmbed(message)])
+  }
 
-    // ワールド名がある場合は追加
-    if (params.worldName) {
-      embed.fields?.push({
-        name: 'ワールド',
-        value: params.worldName,
-        inline: false,
-      })
-    }
+  /**
+   * 先頭から 1 メッセージにまとめて送信できる通知の数を取得する
+   * Discord の Embed の数と合計文字数の制限に収まる件数とする
+   *
+   * @param payloads 送信待ちの通知の種類とパラメータ（送信する順）
+   * @returns まとめて送信できる通知の数（1 件以上）
+   */
+  getBatchSize(payloads: NotificationPayload[]): number {
+    let count = 0
+    let characters = 0
 
-    // サムネイルがある場合は追加
-    if (params.thumbnailUrl) {
-      embed.thumbnail = {
-        url: params.thumbnailUrl,
+    for (const payload of payloads.slice(0, MAX_EMBEDS_PER_MESSAGE)) {
+      characters += countEmbedCharacters(
+        this.toEmbed(buildNotificationMessage(payload))
+      )
+      // 1 件で制限を超える場合も送信を試みる
+      if (count > 0 && characters > MAX_EMBED_CHARACTERS_PER_MESSAGE) {
+        break
       }
+      count++
     }
 
-    await this.sendEmbed(embed)
+    return count
+  }
+
+  /**
+   * 複数の Embed を 1 メッセージにまとめて送信する
+   * 一部だけ送信されて再送信で重複しないよう、分割はせず getBatchSize の件数までを受け付ける
+   *
+   * @param messages 通知メッセージ
+   */
+  protected async sendBatch(messages: NotificationMessage[]): Promise<void> {
+    await this.sendEmbeds(messages.map((message) => this.toEmbed(message)))
   }
 
   /**
-   * オンライン通知を送信する
+   * 通知メッセージを Embed に変換する
    *
-   * @param params 通知パラメータ
+   * @param message 通知メッセージ
+   * @returns Embed
    */
-  async notifyOnline(params: OnlineParams): Promise<void> {
+  private toEmbed(message: NotificationMessage): DiscordEmbed {
     const embed: DiscordEmbed = {
-      title: '\u{1F7E2} オンライン',
-      color: COLORS.online,
-      fields: [
-        {
-          name: 'ユーザー',
-          value: params.displayName,
-          inline: true,
-        },
-      ],
-      timestamp: new Date().toISOString(),
+      title: message.title,
+      color: message.color,
+      fields: message.fields,
+      timestamp: message.timestamp,
+    }
+
+    // サムネイルがある場合は追加
+    if (message.thumbnailUrl) {
+      embed.thumbnail = {
+        url: message.thumbnailUrl,
+      }
     }
 
-    await this.sendEmbed(embed)
+    return embed
   }
 
   /**
-   * オフライン通知を送信する
+   * Embed を 1 メッセージで送信する（レート制限の順番待ちを含む）
    *
-   * @param params 通知パラメータ
+   * @param embeds Embed
+   * @throws 送信に失敗した場合
    */
-  async notifyOffline(params: OfflineParams): Promise<void> {
-    const embed: DiscordEmbed = {
-      title: '\u{26AB} オフライン',
-      color: COLORS.offline,
-      fields: [
-        {
-          name: 'ユーザー',
-          value: params.displayName,
-          inline: true,
-        },
-      ],
-      timestamp: new Date().toISOString(),
-    }
+  private async sendEmbeds(embeds: DiscordEmbed[]): Promise<void> {
+    // メンションが設定されている場合は本文に含める
+    const body = this.mention ? { content: this.mention, embeds } : { embeds }
 
-    await this.sendEmbed(embed)
+    await this.rateLimiter.schedule(() => this.post(body))
   }
 
   /**
-   * Embed を送信する（リトライ機能付き）
+   * Webhook に POST する
+   * 429 を受け取った場合は Retry-After に従って待機してから再送信する
    *
-   * @param embed Discord Embed
-   * @param attempt 現在の試行回数
+   * @param body 送信する JSON
+   * @throws 送信に失敗した場合、またはレート制限の待機時間が長すぎる場合
    */
-  private async sendEmbed(embed: DiscordEmbed, attempt = 1): Promise<void> {
-    const maxAttempts = 3
+  private async post(body: unknown): Promise<void> {
+    for (let attempt = 0; attempt <= MAX_RATE_LIMIT_RETRIES; attempt++) {
+      await this.rateLimiter.waitUntilAvailable()
 
-    try {
-      await this.discord.sendMessage({
-        embeds: [embed],
+      const response = await fetch(this.webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(NOTIFIER_REQUEST_TIMEOUT_MS),
       })
-    } catch (error) {
-      console.error(
-        `[DISCORD] Failed to send notification (attempt ${attempt}/${maxAttempts}):`,
-        error
-      )
+      this.rateLimiter.update(response)
 
-      if (attempt < maxAttempts) {
-        // リトライ前に待機（試行回数に応じて増加）
-        await this.delay(1000 * attempt)
-        return this.sendEmbed(embed, attempt + 1)
+      if (response.status !== 429) {
+        if (!response.ok) {
+          throw new Error(
+            `Request failed with status ${response.status} ${response.statusText}`
+          )
+        }
+        return
       }
 
-      // これ以上リトライしない。エラーはログにのみ出力して呼び出し元には伝播しない。
+      const retryAfterMs = await this.getRetryAfter(response)
+      if (retryAfterMs > MAX_RATE_LIMIT_WAIT_MS) {
+        this.rateLimiter.block(retryAfterMs)
+        throw new Error(
+          `Rate limited by Discord for ${Math.ceil(retryAfterMs / 1000)} seconds`
+        )
+      }
+
+      console.warn(
+        `[DISCORD] Rate limited on ${this.name}, retrying in ${retryAfterMs}ms`
+      )
+      this.rateLimiter.block(retryAfterMs)
     }
+
+    throw new Error(
+      `Rate limited by Discord after ${MAX_RATE_LIMIT_RETRIES} retries`
+    )
   }
 
   /**
-   * 指定したミリ秒だけ待機するヘルパー
+   * 429 応答から再送信までの待機時間を取得する
+   * 本文の retry_after（秒）を優先し、なければ Retry-After ヘッダーを使う
    *
-   * @param ms 待機するミリ秒
+   * @param response 429 応答
+   * @returns 待機時間（ミリ秒）
    */
-  private async delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms))
+  private async getRetryAfter(response: Response): Promise<number> {
+    try {
+      const data = (await response.json()) as { retry_after?: unknown }
+      if (typeof data.retry_after === 'number' && data.retry_after >= 0) {
+        return Math.ceil(data.retry_after * 1000)
+      }
+    } catch {
+      // 本文が JSON でない場合はヘッダーを使う
+    }
+
+    return (
+      parseSeconds(response.headers.get('Retry-After')) ??
+      DEFAULT_RETRY_AFTER_MS
+    )
   }
 }
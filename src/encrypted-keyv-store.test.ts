@@ -0,0 +1,90 @@
+import * as fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { KeyvFile } from 'keyv-file'
+import { EncryptedKeyvStore } from './encrypted-keyv-store'
+
+const SECRET = 'test-encryption-key'
+
+/** 保存する Cookie（平文で保存されていた値の例） */
+const COOKIE_VALUE = {
+  value: { auth: 'authcookie_secret-value' },
+  expires: null,
+}
+
+let directory: string
+let filename: string
+
+/**
+ * テスト用のファイルに保存する KeyvFile を作成する
+ *
+ * @returns KeyvFile
+ */
+function createFileStore(): KeyvFile {
+  return new KeyvFile({ filename, writeDelay: 0 })
+}
+
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'encrypted-keyv-store-'))
+  filename = path.join(directory, 'cookies.json')
+})
+
+afterEach(() => {
+  fs.rmSync(directory, { recursive: true, force: true })
+})
+
+describe('EncryptedKeyvStore', () => {
+  test('encrypts values on disk and decrypts them on read', async () => {
+    const store = new EncryptedKeyvStore(createFileStore(), SECRET)
+    await store.set('cookie', COOKIE_VALUE)
+    await store.disconnect()
+
+    expect(fs.readFileSync(filename, 'utf8')).not.toContain('secret-value')
+
+    const reopened = new EncryptedKeyvStore(createFileStore(), SECRET)
+    expect(await reopened.get('cookie')).toStrictEqual(COOKIE_VALUE)
+    await reopened.disconnect()
+  })
+
+  test('migrates plaintext values and keeps them readable', async () => {
+    const plaintext = createFileStore()
+    await plaintext.set('cookie', COOKIE_VALUE)
+    await plaintext.set('other', 'plain')
+    await plaintext.disconnect()
+    expect(fs.readFileSync(filename, 'utf8')).toContain('secret-value')
+
+    const store = new EncryptedKeyvStore(createFileStore(), SECRET)
+    // 移行前の平文の値もそのまま読み込める
+    expect(await store.get('cookie')).toStrictEqual(COOKIE_VALUE)
+
+    expect(await store.migrate()).toBe(2)
+    expect(await store.get('cookie')).toStrictEqual(COOKIE_VALUE)
+    expect(await store.get('other')).toBe('plain')
+    await store.disconnect()
+    expect(fs.readFileSync(filename, 'utf8')).not.toContain('secret-value')
+
+    // 暗号化済みの値は移行し直さない
+    const reopened = new EncryptedKeyvStore(createFileStore(), SECRET)
+    expect(await reopened.migrate()).toBe(0)
+    expect(await reopened.get('cookie')).toStrictEqual(COOKIE_VALUE)
+    await reopened.disconnect()
+  })
+
+  test('treats values encrypted with another key as missing', async () => {
+    const store = new EncryptedKeyvStore(createFileStore(), SECRET)
+    await store.set('cookie', COOKIE_VALUE)
+    await store.disconnect()
+
+    const consoleError = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => undefined)
+    try {
+      const reopened = new EncryptedKeyvStore(createFileStore(), 'other-key')
+      expect(await reopened.get('cookie')).toBeUndefined()
+      expect(consoleError).toHaveBeenCalledTimes(1)
+      await reopened.disconnect()
+    } finally {
+      consoleError.mockRestore()
+    }
+  })
+})
@@ -0,0 +1,253 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from 'node:crypto'
+import { EventEmitter } from 'node:events'
+import type { KeyvStoreAdapter } from 'keyv'
+import type { KeyvFile } from 'keyv-file'
+
+/** 暗号化方式 */
+const ALGORITHM = 'aes-256-gcm'
+
+/** 暗号化鍵の導出に使用するソルト（鍵ごとに異なる必要はないため固定値とする） */
+const KEY_DERIVATION_SALT = 'watch-vrchat-user:cookie-store'
+
+/** 初期化ベクトルの長さ（バイト） */
+const IV_LENGTH = 12
+
+/**
+ * 暗号化して保存した値
+ */
+interface EncryptedValue {
+  /** 暗号化方式 */
+  encrypted: typeof ALGORITHM
+  /** 初期化ベクトル（Base64） */
+  iv: string
+  /** 認証タグ（Base64） */
+  tag: string
+  /** 暗号文（Base64） */
+  data: string
+}
+
+/**
+ * 値が暗号化して保存した値かどうかを判定する
+ *
+ * @param value 判定する値
+ * @returns 暗号化して保存した値の場合は true
+ */
+function isEncryptedValue(value: unknown): value is EncryptedValue {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const record = value as Record<string, unknown>
+  return (
+    record.encrypted === ALGORITHM &&
+    typeof record.iv === 'string' &&
+    typeof record.tag === 'string' &&
+    typeof record.data === 'string'
+  )
+}
+
+/**
+ * 値を暗号化してファイルに保存する Keyv アダプタ
+ *
+ * KeyvFile をラップし、値を AES-256-GCM で暗号化して保存する（キーは暗号化しない）。
+ * 暗号化鍵は COOKIE_ENCRYPTION_KEY または COOKIE_ENCRYPTION_KEY_FILE の文字列から scrypt で導出する。
+ * 平文で保存されていた値はそのまま読み込めるため、migrate() で暗号化し直すまでの間も利用できる。
+ */
+export class EncryptedKeyvStore
+  // Keyv はアダプタの on('error') でエラーを購読するため、KeyvFile と同じく EventEmitter を継承する
+  // eslint-disable-next-line unicorn/prefer-event-target
+  extends EventEmitter
+  implements KeyvStoreAdapter
+{
+  private store: KeyvFile
+  private key: Buffer
+
+  /**
+   * EncryptedKeyvStore を初期化する
+   *
+   * @param store 暗号化した値を保存する KeyvFile
+   * @param secret 暗号化鍵の元になる文字列
+   */
+  constructor(store: KeyvFile, secret: string) {
+    super()
+    this.store = store
+    this.key = scryptSync(secret, KEY_DERIVATION_SALT, 32)
+
+    store.on('error', (error: unknown) => {
+      this.emit('error', error)
+    })
+  }
+
+  /** Keyv が参照する設定（KeyvFile の設定をそのまま返す） */
+  get opts(): KeyvFile['opts'] {
+    return this.store.opts
+  }
+
+  /** Keyv が設定する名前空間（KeyvFile に引き継ぐ） */
+  get namespace(): string | undefined {
+    return this.store.namespace
+  }
+
+  set namespace(namespace: string | undefined) {
+    this.store.namespace = namespace
+  }
+
+  /**
+   * 平文で保存されている値をすべて暗号化して保存し直す
+   *
+   * @returns 暗号化した値の件数
+   */
+  async migrate(): Promise<number> {
+    const keys = [...(await this.store.keys())]
+    let migrated = 0
+    for (const key of keys) {
+      const value = await this.store.get<unknown>(key)
+      if (value === undefined || isEncryptedValue(value)) {
+        continue
+      }
+
+      // KeyvFile の有効期限は引き継げないが、Keyv は値の中にも有効期限を保存している
+      await this.store.set(key, this.encrypt(value))
+      migrated++
+    }
+    return migrated
+  }
+
+  /**
+   * 値を取得して復号する
+   *
+   * @param key キー
+   * @returns 復号した値（存在しない、または復号できない場合は undefined）
+   */
+  async get<Value>(key: string): Promise<Value | undefined> {
+    const value = await this.store.get<unknown>(key)
+    if (value === undefined) {
+      return undefined
+    }
+    return this.decrypt(key, value) as Value | undefined
+  }
+
+  /**
+   * 複数の値を取得して復号する
+   *
+   * @param keys キーの配列
+   * @returns 復号した値の配列
+   */
+  async getMany<Value>(keys: string[]): Promise<(Value | undefined)[]> {
+    return Promise.all(keys.map(async (key) => this.get<Value>(key)))
+  }
+
+  /**
+   * 値を暗号化して保存する
+   *
+   * @param key キー
+   * @param value 値
+   * @param ttl 有効期間（ミリ秒）
+   */
+  async set(key: string, value: unknown, ttl?: number): Promise<void> {
+    await this.store.set(key, this.encrypt(value), ttl)
+  }
+
+  /**
+   * 値を削除する
+   *
+   * @param key キー
+   * @returns 削除した場合は true
+   */
+  async delete(key: string): Promise<boolean> {
+    return this.store.delete(key)
+  }
+
+  /**
+   * 複数の値を削除する
+   *
+   * @param keys キーの配列
+   * @returns 削除した場合は true
+   */
+  async deleteMany(keys: string[]): Promise<boolean> {
+    return this.store.deleteMany(keys)
+  }
+
+  /**
+   * すべての値を削除する
+   */
+  async clear(): Promise<void> {
+    await this.store.clear()
+  }
+
+  /**
+   * 値が存在するかどうかを確認する
+   *
+   * @param key キー
+   * @returns 存在する場合は true
+   */
+  async has(key: string): Promise<boolean> {
+    return this.store.has(key)
+  }
+
+  /**
+   * 保存待ちの値をファイルに書き込んで終了する
+   */
+  async disconnect(): Promise<void> {
+    await this.store.disconnect()
+  }
+
+  /**
+   * 値を暗号化する
+   *
+   * @param value 値（JSON に変換できる値）
+   * @returns 暗号化した値
+   */
+  private encrypt(value: unknown): EncryptedValue {
+    const iv = randomBytes(IV_LENGTH)
+    const cipher = createCipheriv(ALGORITHM, this.key, iv)
+    const data = Buffer.concat([
+      cipher.update(JSON.stringify(value), 'utf8'),
+      cipher.final(),
+    ])
+
+    return {
+      encrypted: ALGORITHM,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    }
+  }
+
+  /**
+   * 保存されている値を復号する
+   *
+   * @param key キー（ログ出力用）
+   * @param value 保存されている値
+   * @returns 復号した値（平文で保存されている場合はそのまま、復号できない場合は undefined）
+   */
+  private decrypt(key: string, value: unknown): unknown {
+    if (!isEncryptedValue(value)) {
+      return value
+    }
+
+    try {
+      const decipher = createDecipheriv(
+        ALGORITHM,
+        this.key,
+        Buffer.from(value.iv, 'base64')
+      )
+      decipher.setAuthTag(Buffer.from(value.tag, 'base64'))
+      const data = Buffer.concat([
+        decipher.update(Buffer.from(value.data, 'base64')),
+        decipher.final(),
+      ])
+      return JSON.parse(data.toString('utf8')) as unknown
+    } catch {
+      // 鍵を変更した場合は復号できないため、保存されていないものとして扱う（ログインし直す）
+      console.error(
+        `[COOKIE] Failed to decrypt ${key}, the encryption key may have changed`
+      )
+      return undefined
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import {
+  classifyApiError,
+  InvalidCredentialsError,
+  NetworkError,
+  RateLimitedError,
+  ServerError,
+  TwoFactorRequiredError,
+  UnexpectedApiError,
+} from './errors'
+
+/**
+ * API の呼び出しの失敗を作成する
+ *
+ * @param status HTTP ステータスコード
+ * @param url リクエストの URL
+ * @param headers レスポンスヘッダー
+ * @returns API の呼び出し結果
+ */
+function failedResult(
+  status: number,
+  url = 'https://api.vrchat.cloud/api/1/auth/user',
+  headers: Record<string, string> = {}
+): { error: Error; request: Request; response: Response } {
+  return {
+    error: new Error(`Request failed with status ${status}`),
+    request: new Request(url),
+    response: new Response(null, { status, headers }),
+  }
+}
+
+describe('classifyApiError', () => {
+  test('classifies a missing response as a network error', () => {
+    const cause = new TypeError('fetch failed')
+    const error = classifyApiError('login', { error: cause })
+
+    expect(error).toBeInstanceOf(NetworkError)
+    expect(error.kind).toBe('network')
+    expect(error.statusCode).toBeNull()
+    expect(error.message).toBe('login failed: fetch failed')
+    expect(error.cause).toBe(cause)
+  })
+
+  test('classifies 429 as rate limited with the Retry-After seconds', () => {
+    const error = classifyApiError(
+      'login',
+      failedResult(429, undefined, { 'Retry-After': '120' })
+    )
+
+    expect(error).toBeInstanceOf(RateLimitedError)
+    expect(error.statusCode).toBe(429)
+    expect((error as RateLimitedError).retryAfterMs).toBe(120_000)
+  })
+
+  test('parses a Retry-After HTTP date', () => {
+    const retryAt = new Date(Date.now() + 60_000).toUTCString()
+    const error = classifyApiError(
+      'login',
+      failedResult(429, undefined, { 'Retry-After': retryAt })
+    ) as RateLimitedError
+
+    expect(error.retryAfterMs).toBeGreaterThan(0)
+    expect(error.retryAfterMs).toBeLessThanOrEqual(60_000)
+  })
+
+  test('leaves retryAfterMs null without a valid Retry-After', () => {
+    expect(
+      (classifyApiError('login', failedResult(429)) as RateLimitedError)
+        .retryAfterMs
+    ).toBeNull()
+    expect(
+      (
+        classifyApiError(
+          'login',
+          failedResult(429, undefined, { 'Retry-After': 'soon' })
+        ) as RateLimitedError
+      ).retryAfterMs
+    ).toBeNull()
+  })
+
+  test.each([500, 502, 503])('classifies %i as a server error', (status) => {
+    const error = classifyApiError('login', failedResult(status))
+
+    expect(error).toBeInstanceOf(ServerError)
+    expect(error.statusCode).toBe(status)
+  })
+
+  test('classifies a failed 2FA verification as two-factor required', () => {
+    const error = classifyApiError(
+      'verify 2FA',
+      failedResult(
+        400,
+        'https://api.vrchat.cloud/api/1/auth/twofactorauth/totp/verify'
+      )
+    )
+
+    expect(error).toBeInstanceOf(TwoFactorRequiredError)
+    expect(error.kind).toBe('two-factor-required')
+  })
+
+  test('classifies 401 as invalid credentials', () => {
+    const error = classifyApiError('login', failedResult(401))
+
+    expect(error).toBeInstanceOf(InvalidCredentialsError)
+    expect(error.kind).toBe('invalid-credentials')
+  })
+
+  test('classifies other statuses as unexpected', () => {
+    const error = classifyApiError('login', failedResult(403))
+
+    expect(error).toBeInstanceOf(UnexpectedApiError)
+    expect(error.statusCode).toBe(403)
+    expect(error.name).toBe('UnexpectedApiError')
+  })
+})
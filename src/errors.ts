@@ -0,0 +1,176 @@
+/**
+ * VRChat への接続エラーの分類
+ */
+export type VRChatErrorKind =
+  | 'invalid-credentials'
+  | 'two-factor-required'
+  | 'two-factor-failed'
+  | 'rate-limited'
+  | 'network'
+  | 'server'
+  | 'unexpected'
+
+/**
+ * VRChat への接続エラーの基底クラス
+ *
+ * エラーメッセージではなく HTTP ステータスコードと SDK のエラーから分類し、
+ * 分類ごとに再接続の待機時間を決める
+ */
+export abstract class VRChatConnectionError extends Error {
+  /** エラーの分類 */
+  abstract readonly kind: VRChatErrorKind
+  /** HTTP ステータスコード（応答がない場合は null） */
+  readonly statusCode: number | null
+
+  /**
+   * VRChatConnectionError を初期化する
+   *
+   * @param message エラーメッセージ
+   * @param statusCode HTTP ステータスコード（応答がない場合は null）
+   * @param cause 元のエラー
+   */
+  constructor(message: string, statusCode: number | null, cause?: unknown) {
+    super(message, { cause })
+    this.name = new.target.name
+    this.statusCode = statusCode
+  }
+}
+
+/**
+ * ユーザー名またはパスワードが正しくない（401）
+ * 繰り返すとアカウントがロックされるおそれがあるため、長時間待機してから再試行する
+ */
+export class InvalidCredentialsError extends VRChatConnectionError {
+  readonly kind = 'invalid-credentials'
+}
+
+/**
+ * 2FA コードが必要、または TOTP シークレットから生成した 2FA コードの検証に失敗した
+ * 2FA コードを用意するまで再試行しても成功しないため、長時間待機してから再試行する
+ */
+export class TwoFactorRequiredError extends VRChatConnectionError {
+  readonly kind = 'two-factor-required'
+}
+
+/**
+ * 2FA コードが時間内に送信されなかった、または入力された 2FA コードが正しくなかった
+ * 入力し直せば成功するため、通常の再接続の待機時間で再試行する
+ */
+export class TwoFactorFailedError extends VRChatConnectionError {
+  readonly kind = 'two-factor-failed'
+}
+
+/**
+ * API のレート制限を超えた（429）
+ */
+export class RateLimitedError extends VRChatConnectionError {
+  readonly kind = 'rate-limited'
+  /** Retry-After ヘッダーで指定された待機時間（ミリ秒、指定がない場合は null） */
+  readonly retryAfterMs: number | null
+
+  /**
+   * RateLimitedError を初期化する
+   *
+   * @param message エラーメッセージ
+   * @param retryAfterMs Retry-After ヘッダーで指定された待機時間（ミリ秒）
+   * @param cause 元のエラー
+   */
+  constructor(message: string, retryAfterMs: number | null, cause?: unknown) {
+    super(message, 429, cause)
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+/**
+ * VRChat API に到達できない（DNS の解決失敗・接続拒否・タイムアウトなど）
+ */
+export class NetworkError extends VRChatConnectionError {
+  readonly kind = 'network'
+}
+
+/**
+ * VRChat API のサーバーエラー（5xx）
+ */
+export class ServerError extends VRChatConnectionError {
+  readonly kind = 'server'
+}
+
+/**
+ * 上記のいずれにも該当しない API のエラー
+ */
+export class UnexpectedApiError extends VRChatConnectionError {
+  readonly kind = 'unexpected'
+}
+
+/**
+ * VRChat API の呼び出し結果のうちエラーの分類に使用する部分
+ */
+interface FailedApiResult {
+  /** SDK のエラー */
+  error: unknown
+  /** HTTP リクエスト */
+  request?: Request
+  /** HTTP レスポンス（応答がない場合は undefined） */
+  response?: Response
+}
+
+/**
+ * Retry-After ヘッダーを解析する
+ *
+ * @param value Retry-After ヘッダーの値（秒数または HTTP 日付）
+ * @returns 待機時間（ミリ秒、解析できない場合は null）
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null
+  }
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000
+  }
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0)
+}
+
+/**
+ * VRChat API の呼び出しの失敗を分類したエラーに変換する
+ *
+ * @param operation API の操作名（エラーメッセージに含める）
+ * @param result API の呼び出し結果
+ * @returns 分類したエラー
+ */
+export function classifyApiError(
+  operation: string,
+  result: FailedApiResult
+): VRChatConnectionError {
+  const detail =
+    result.error instanceof Error ? result.error.message : String(result.error)
+  const message = `${operation} failed: ${detail}`
+
+  // SDK はネットワークエラーの場合にレスポンスを返さない
+  const response = result.response
+  if (!response) {
+    return new NetworkError(message, null, result.error)
+  }
+
+  const status = response.status
+  if (status === 429) {
+    return new RateLimitedError(
+      message,
+      parseRetryAfter(response.headers.get('Retry-After')),
+      result.error
+    )
+  }
+  if (status >= 500) {
+    return new ServerError(message, status, result.error)
+  }
+  if (result.request?.url.includes('/auth/twofactorauth/')) {
+    return new TwoFactorRequiredError(message, status, result.error)
+  }
+  if (status === 401) {
+    return new InvalidCredentialsError(message, status, result.error)
+  }
+  return new UnexpectedApiError(message, status, result.error)
+}
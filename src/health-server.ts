@@ -1,15 +1,31 @@
 import * as http from 'node:http'
-import type { WebSocketMonitor } from './websocket-monitor'
+import { sendError, sendJson, type RequestHandler } from './http-utils'
+import {
+  connectionStateGauge,
+  connectionTransitionsCounter,
+  reconnectAttemptsGauge,
+  renderMetrics,
+  secondsSinceLastEventGauge,
+} from './metrics'
+import {
+  CONNECTION_STATES,
+  type StateTransition,
+  type WebSocketMonitor,
+} from './websocket-monitor'
 
 /**
  * ヘルスチェックサーバー
  *
  * localhost のみでアクセス可能な HTTP サーバーを提供し、
- * WebSocket 接続状態と最後のイベント受信時刻を返す
+ * WebSocket 接続状態・遷移履歴・死活判定・最後の接続エラーの分類と最後のイベント受信時刻（/health）と
+ * Prometheus 形式のメトリクス（/metrics）を返す。
+ * addHandler で登録したハンドラにより、/health 以外のエンドポイントを追加できる
  */
 export class HealthServer {
   private server: http.Server | null = null
   private monitor: WebSocketMonitor
+  private handlers: RequestHandler[] = []
+  private statusProviders = new Map<string, () => unknown>()
 
   /** ヘルスチェックサーバーのポート */
   private readonly PORT = process.env.HEALTH_PORT
@@ -26,6 +42,32 @@ export class HealthServer {
    */
   constructor(monitor: WebSocketMonitor) {
     this.monitor = monitor
+    this.monitor.on('state-change', (transition: StateTransition) => {
+      connectionTransitionsCounter.inc({
+        from: transition.from,
+        to: transition.to,
+      })
+    })
+  }
+
+  /**
+   * リクエストハンドラを登録する
+   * /health 以外のリクエストは登録順にハンドラへ渡され、最初に処理したハンドラが応答する
+   *
+   * @param handler リクエストハンドラ
+   */
+  addHandler(handler: RequestHandler): void {
+    this.handlers.push(handler)
+  }
+
+  /**
+   * /health の応答に含める状態を登録する
+   *
+   * @param name 応答のキー
+   * @param provider 状態を返す関数（リクエストごとに呼び出す）
+   */
+  addStatusProvider(name: string, provider: () => unknown): void {
+    this.statusProviders.set(name, provider)
   }
 
   /**
@@ -34,12 +76,14 @@ export class HealthServer {
   start(): void {
     this.server = http.createServer(
       (request: http.IncomingMessage, response: http.ServerResponse) => {
-        if (request.url === '/health') {
-          this.handleHealthCheck(response)
-        } else {
-          response.writeHead(404, { 'Content-Type': 'text/plain' })
-          response.end('Not Found')
-        }
+        this.handleRequest(request, response).catch((error: unknown) => {
+          console.error('[HEALTH] Error handling request:', error)
+          if (response.headersSent) {
+            response.end()
+          } else {
+            sendError(response, 500, 'Internal Server Error')
+          }
+        })
       }
     )
 
@@ -62,6 +106,67 @@ export class HealthServer {
     }
   }
 
+  /**
+   * リクエストを処理する
+   *
+   * @param request HTTP リクエスト
+   * @param response HTTP レスポンス
+   */
+  private async handleRequest(
+    request: http.IncomingMessage,
+    response: http.ServerResponse
+  ): Promise<void> {
+    const url = new URL(request.url ?? '/', `http://${this.HOST}`)
+
+    if (url.pathname === '/health') {
+      this.handleHealthCheck(response)
+      return
+    }
+
+    if (url.pathname === '/metrics') {
+      this.handleMetrics(response)
+      return
+    }
+
+    for (const handler of this.handlers) {
+      if (await handler(request, response, url)) {
+        return
+      }
+    }
+
+    response.writeHead(404, { 'Content-Type': 'text/plain' })
+    response.end('Not Found')
+  }
+
+  /**
+   * メトリクスリクエストを処理する
+   * 接続状態のメトリクスは出力時点の値に更新する
+   *
+   * @param response HTTP レスポンス
+   */
+  private handleMetrics(response: http.ServerResponse): void {
+    const state = this.monitor.getState()
+    for (const connectionState of CONNECTION_STATES) {
+      connectionStateGauge.set(
+        { state: connectionState },
+        connectionState === state ? 1 : 0
+      )
+    }
+
+    reconnectAttemptsGauge.set({}, this.monitor.getReconnectAttempts())
+
+    const lastEventTime = this.monitor.getLastEventTime()
+    secondsSinceLastEventGauge.set(
+      {},
+      lastEventTime ? (Date.now() - lastEventTime.getTime()) / 1000 : -1
+    )
+
+    response.writeHead(200, {
+      'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+    })
+    response.end(renderMetrics())
+  }
+
   /**
    * ヘルスチェックリクエストを処理する
    *
@@ -72,17 +177,31 @@ export class HealthServer {
     const lastEventTime = this.monitor.getLastEventTime()
 
     // 接続状態が connected でない場合は 503 を返す
+    // degraded（REST API でのポーリング中）は通知を継続できるため 200 を返す
     const isHealthy = state === 'connected'
-    const statusCode = isHealthy ? 200 : 503
+    const isDegraded = state === 'degraded'
+    const statusCode = isHealthy || isDegraded ? 200 : 503
 
-    const healthStatus = {
-      status: isHealthy ? 'healthy' : 'unhealthy',
+    let status = 'unhealthy'
+    if (isHealthy) {
+      status = 'healthy'
+    } else if (isDegraded) {
+      status = 'degraded'
+    }
+
+    const healthStatus: Record<string, unknown> = {
+      status,
       connectionState: state,
       lastEventTime: lastEventTime ? lastEventTime.toISOString() : null,
+      liveness: this.monitor.getLiveness(),
+      lastError: this.monitor.getLastError(),
+      connectionHistory: this.monitor.getStateHistory(),
       timestamp: new Date().toISOString(),
     }
+    for (const [name, provider] of this.statusProviders) {
+      healthStatus[name] = provider()
+    }
 
-    response.writeHead(statusCode, { 'Content-Type': 'application/json' })
-    response.end(JSON.stringify(healthStatus, null, 2))
+    sendJson(response, statusCode, healthStatus)
   }
 }
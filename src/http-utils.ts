@@ -0,0 +1,103 @@
+import { timingSafeEqual } from 'node:crypto'
+import type * as http from 'node:http'
+
+/** リクエストボディの最大サイズ（バイト） */
+const MAX_BODY_SIZE = 64 * 1024
+
+/**
+ * HTTP リクエストのハンドラ
+ *
+ * @param request HTTP リクエスト
+ * @param response HTTP レスポンス
+ * @param url 解析済みのリクエスト URL
+ * @returns リクエストを処理した場合は true
+ */
+export type RequestHandler = (
+  request: http.IncomingMessage,
+  response: http.ServerResponse,
+  url: URL
+) => boolean | Promise<boolean>
+
+/**
+ * JSON レスポンスを送信する
+ *
+ * @param response HTTP レスポンス
+ * @param statusCode ステータスコード
+ * @param body レスポンスボディ
+ */
+export function sendJson(
+  response: http.ServerResponse,
+  statusCode: number,
+  body: unknown
+): void {
+  response.writeHead(statusCode, { 'Content-Type': 'application/json' })
+  response.end(JSON.stringify(body, null, 2))
+}
+
+/**
+ * エラーレスポンスを JSON で送信する
+ *
+ * @param response HTTP レスポンス
+ * @param statusCode ステータスコード
+ * @param message エラーメッセージ
+ */
+export function sendError(
+  response: http.ServerResponse,
+  statusCode: number,
+  message: string
+): void {
+  sendJson(response, statusCode, { error: message })
+}
+
+/**
+ * Bearer トークンで認証されているかを判定する
+ *
+ * @param request HTTP リクエスト
+ * @param token 期待するトークン
+ * @returns 認証されている場合は true
+ */
+export function isAuthorized(
+  request: http.IncomingMessage,
+  token: string
+): boolean {
+  const header = request.headers.authorization
+  if (!header?.startsWith('Bearer ')) {
+    return false
+  }
+
+  const actual = Buffer.from(header.slice('Bearer '.length))
+  const expected = Buffer.from(token)
+
+  // タイミング攻撃を防ぐため、長さが一致する場合は定数時間で比較する
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+/**
+ * リクエストボディを JSON として読み込む
+ *
+ * @param request HTTP リクエスト
+ * @returns 解析結果
+ * @throws ボディが大きすぎる場合、または JSON として不正な場合
+ */
+export async function readJsonBody(
+  request: http.IncomingMessage
+): Promise<unknown> {
+  const chunks: Buffer[] = []
+  let size = 0
+
+  for await (const chunk of request) {
+    const buffer = chunk as Buffer
+    size += buffer.length
+    if (size > MAX_BODY_SIZE) {
+      throw new Error('Request body too large')
+    }
+    chunks.push(buffer)
+  }
+
+  const content = Buffer.concat(chunks).toString('utf8')
+  if (content === '') {
+    return undefined
+  }
+
+  return JSON.parse(content) as unknown
+}
@@ -0,0 +1,253 @@
+import * as fs from 'node:fs'
+import path from 'node:path'
+import type { LocationHistoryConfig } from './config'
+
+/** 履歴ファイルのパス（環境変数で上書き可能） */
+const LOCATION_HISTORY_FILE_PATH =
+  process.env.LOCATION_HISTORY_FILE_PATH ?? 'data/location-history.jsonl'
+
+/** コンパクションの間隔（ミリ秒） */
+const COMPACTION_INTERVAL_MS = 24 * 60 * 60 * 1000 // 24時間
+
+/**
+ * Location 変化を検知した経路
+ *
+ * - websocket: pipeline イベント
+ * - startup: 起動時の差分検出
+ * - poll: 定期ポーリング
+ * - seed: 監視対象への追加時の初期取得
+ */
+export type LocationChangeSource = 'websocket' | 'startup' | 'poll' | 'seed'
+
+/**
+ * Location 履歴のエントリ
+ */
+export interface LocationHistoryEntry {
+  /** ユーザー ID */
+  userId: string
+  /** ユーザーの表示名 */
+  displayName: string
+  /** 変化前の Location（オフラインまたは不明の場合は null） */
+  from: string | null
+  /** 変化後の Location（オフラインの場合は null） */
+  to: string | null
+  /** 変化後のワールド ID（インスタンスでない場合は null） */
+  worldId: string | null
+  /** 変化を検知した日時（ISO 8601 形式） */
+  timestamp: string
+  /** 変化を検知した経路 */
+  source: LocationChangeSource
+}
+
+/**
+ * Location 履歴の検索条件
+ */
+export interface LocationHistoryQuery {
+  /** ユーザー ID */
+  userId?: string
+  /** この日時以降のエントリのみ（この日時を含む） */
+  since?: Date
+  /** この日時以前のエントリのみ（この日時を含む） */
+  until?: Date
+  /** 最大件数（新しいものから数える） */
+  limit?: number
+}
+
+/**
+ * Location 変化の追記専用履歴
+ *
+ * 変化ごとに JSON Lines 形式でファイルへ追記し、
+ * 保持期間と件数上限に基づいて定期的にファイルをコンパクションする
+ */
+export class LocationHistory {
+  private config: LocationHistoryConfig
+  private entries: LocationHistoryEntry[] = []
+  private lastCompactedAt = 0
+
+  /**
+   * LocationHistory を初期化する
+   * ファイルから既存の履歴を読み込み、コンパクションを行う
+   *
+   * @param config 保持期間と件数上限の設定
+   */
+  constructor(config: LocationHistoryConfig) {
+    this.config = config
+    this.load()
+    this.compact()
+  }
+
+  /**
+   * ファイルから履歴を読み込む
+   */
+  private load(): void {
+    try {
+      if (!fs.existsSync(LOCATION_HISTORY_FILE_PATH)) {
+        return
+      }
+
+      const content = fs.readFileSync(LOCATION_HISTORY_FILE_PATH, 'utf8')
+      let invalidLines = 0
+
+      for (const line of content.split('\n')) {
+        if (line.trim() === '') {
+          continue
+        }
+
+        try {
+          const parsed: unknown = JSON.parse(line)
+          if (this.isValidEntry(parsed)) {
+            this.entries.push(parsed)
+          } else {
+            invalidLines++
+          }
+        } catch {
+          // 書き込み途中で終了した行などは読み飛ばす
+          invalidLines++
+        }
+      }
+
+      if (invalidLines > 0) {
+        console.warn(
+          `[LOCATION-HISTORY] Skipped ${invalidLines} invalid line(s) in history file`
+        )
+      }
+
+      console.log(
+        `[LOCATION-HISTORY] Loaded ${this.entries.length} entry(s) from file`
+      )
+    } catch (error) {
+      console.error('[LOCATION-HISTORY] Failed to load history:', error)
+      this.entries = []
+    }
+  }
+
+  /**
+   * データが LocationHistoryEntry として有効かを検証する
+   *
+   * @param data 検証するデータ
+   * @returns 有効な場合は true
+   */
+  private isValidEntry(data: unknown): data is LocationHistoryEntry {
+    if (typeof data !== 'object' || data === null) {
+      return false
+    }
+
+    const obj = data as Record<string, unknown>
+    return (
+      typeof obj.userId === 'string' &&
+      typeof obj.timestamp === 'string' &&
+      (obj.from === null || typeof obj.from === 'string') &&
+      (obj.to === null || typeof obj.to === 'string')
+    )
+  }
+
+  /**
+   * 履歴にエントリを追記する
+   *
+   * @param entry 追記するエントリ
+   */
+  append(entry: LocationHistoryEntry): void {
+    this.entries.push(entry)
+
+    try {
+      const directory = path.dirname(LOCATION_HISTORY_FILE_PATH)
+      if (!fs.existsSync(directory)) {
+        fs.mkdirSync(directory, { recursive: true })
+      }
+
+      fs.appendFileSync(
+        LOCATION_HISTORY_FILE_PATH,
+        `${JSON.stringify(entry)}\n`
+      )
+    } catch (error) {
+      console.error('[LOCATION-HISTORY] Failed to append entry:', error)
+    }
+
+    if (Date.now() - this.lastCompactedAt > COMPACTION_INTERVAL_MS) {
+      this.compact()
+    }
+  }
+
+  /**
+   * 履歴を検索する
+   *
+   * @param query 検索条件
+   * @returns 条件に一致するエントリ（古い順）
+   */
+  query(query: LocationHistoryQuery = {}): LocationHistoryEntry[] {
+    const since = query.since?.getTime()
+    const until = query.until?.getTime()
+
+    const matched = this.entries.filter((entry) => {
+      if (query.userId && entry.userId !== query.userId) {
+        return false
+      }
+
+      const timestamp = new Date(entry.timestamp).getTime()
+      if (since !== undefined && timestamp < since) {
+        return false
+      }
+      if (until !== undefined && timestamp > until) {
+        return false
+      }
+
+      return true
+    })
+
+    if (query.limit !== undefined && matched.length > query.limit) {
+      return matched.slice(-query.limit)
+    }
+
+    return matched
+  }
+
+  /**
+   * 保持期間と件数上限に基づいて履歴をコンパクションする
+   *
+   * 条件を満たすエントリのみを一時ファイルに書き出してから置き換える
+   */
+  compact(): void {
+    this.lastCompactedAt = Date.now()
+
+    const cutoff = Date.now() - this.config.retentionMs
+    const countsByUser = new Map<string, number>()
+    const retained: LocationHistoryEntry[] = []
+
+    // 新しいものから数えて件数上限を適用する
+    for (let index = this.entries.length - 1; index >= 0; index--) {
+      const entry = this.entries[index]
+      if (new Date(entry.timestamp).getTime() < cutoff) {
+        continue
+      }
+
+      const count = countsByUser.get(entry.userId) ?? 0
+      if (count >= this.config.maxEntriesPerUser) {
+        continue
+      }
+      countsByUser.set(entry.userId, count + 1)
+      retained.push(entry)
+    }
+    retained.reverse()
+
+    const removed = this.entries.length - retained.length
+    if (removed === 0) {
+      return
+    }
+
+    this.entries = retained
+
+    try {
+      const temporaryPath = `${LOCATION_HISTORY_FILE_PATH}.tmp`
+      const content = retained
+        .map((entry) => `${JSON.stringify(entry)}\n`)
+        .join('')
+      fs.writeFileSync(temporaryPath, content)
+      fs.renameSync(temporaryPath, LOCATION_HISTORY_FILE_PATH)
+      console.log(
+        `[LOCATION-HISTORY] Compacted history: removed ${removed} entry(s)`
+      )
+    } catch (error) {
+      console.error('[LOCATION-HISTORY] Failed to compact history:', error)
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { formatLocation, getWorldId, parseLocation } from './location-parser'
+
+const WORLD_ID = 'wrld_4432ea9b-729c-46e3-8eaf-846aa0a37fdd'
+
+describe('parseLocation', () => {
+  test.each([null, '', 'offline'])(
+    'treats %p as offline',
+    (location: string | null) => {
+      expect(parseLocation(location).kind).toBe('offline')
+    }
+  )
+
+  test('parses private and traveling locations', () => {
+    expect(parseLocation('private')).toStrictEqual({
+      kind: 'private',
+      raw: 'private',
+    })
+    expect(parseLocation('traveling')).toStrictEqual({
+      kind: 'traveling',
+      raw: 'traveling',
+    })
+    expect(parseLocation(`traveling:${WORLD_ID}:12345`).kind).toBe('traveling')
+  })
+
+  test('parses a world ID without an instance as a public instance', () => {
+    expect(parseLocation(WORLD_ID)).toStrictEqual({
+      kind: 'instance',
+      raw: WORLD_ID,
+      worldId: WORLD_ID,
+      instanceName: '',
+      accessType: 'public',
+      ownerId: null,
+      region: null,
+      nonce: null,
+      groupAccessType: null,
+    })
+  })
+
+  test('parses a public instance with a region', () => {
+    const location = `${WORLD_ID}:12345~region(jp)`
+    expect(parseLocation(location)).toStrictEqual({
+      kind: 'instance',
+      raw: location,
+      worldId: WORLD_ID,
+      instanceName: '12345',
+      accessType: 'public',
+      ownerId: null,
+      region: 'jp',
+      nonce: null,
+      groupAccessType: null,
+    })
+  })
+
+  test.each([
+    ['hidden(usr_owner)', 'friends+'],
+    ['friends(usr_owner)', 'friends'],
+    ['private(usr_owner)~canRequestInvite', 'invite+'],
+    ['private(usr_owner)', 'invite'],
+  ])('parses ~%s as %s', (tag: string, accessType: string) => {
+    const parsed = parseLocation(
+      `${WORLD_ID}:12345~${tag}~region(us)~nonce(abc)`
+    )
+
+    expect(parsed).toMatchObject({
+      kind: 'instance',
+      instanceName: '12345',
+      accessType,
+      ownerId: 'usr_owner',
+      region: 'us',
+      nonce: 'abc',
+    })
+  })
+
+  test('parses a group instance and its access type', () => {
+    const parsed = parseLocation(
+      `${WORLD_ID}:12345~group(grp_owner)~groupAccessType(plus)~region(jp)`
+    )
+
+    expect(parsed).toMatchObject({
+      kind: 'instance',
+      accessType: 'group',
+      ownerId: 'grp_owner',
+      groupAccessType: 'plus',
+    })
+  })
+
+  test('ignores an unknown group access type', () => {
+    const parsed = parseLocation(
+      `${WORLD_ID}:12345~group(grp_owner)~groupAccessType(unknown)`
+    )
+
+    expect(parsed).toMatchObject({
+      accessType: 'group',
+      groupAccessType: null,
+    })
+  })
+
+  test('treats an empty owner as no owner', () => {
+    expect(parseLocation(`${WORLD_ID}:12345~friends()`)).toMatchObject({
+      accessType: 'friends',
+      ownerId: null,
+    })
+  })
+
+  test('returns unknown for a location that is not a world', () => {
+    expect(parseLocation('something:12345')).toStrictEqual({
+      kind: 'unknown',
+      raw: 'something:12345',
+    })
+  })
+})
+
+describe('getWorldId', () => {
+  test('returns the world ID only for instances', () => {
+    expect(getWorldId(parseLocation(`${WORLD_ID}:12345`))).toBe(WORLD_ID)
+    expect(getWorldId(parseLocation('private'))).toBeNull()
+  })
+})
+
+describe('formatLocation', () => {
+  test('formats special and unknown locations', () => {
+    expect(formatLocation(parseLocation(null))).toBe('Offline')
+    expect(formatLocation(parseLocation('private'))).toBe('Private')
+    expect(formatLocation(parseLocation('something'))).toBe('something')
+  })
+
+  test('formats an instance with its access type, region and name', () => {
+    expect(
+      formatLocation(
+        parseLocation(`${WORLD_ID}:12345~hidden(usr_owner)~region(jp)`)
+      )
+    ).toBe('Friends+ · JP · #12345')
+    expect(
+      formatLocation(
+        parseLocation(
+          `${WORLD_ID}:12345~group(grp_owner)~groupAccessType(public)`
+        )
+      )
+    ).toBe('Group Public · #12345')
+  })
+})
@@ -0,0 +1,258 @@
+/**
+ * インスタンスのアクセス種別
+ */
+export type InstanceAccessType =
+  | 'public'
+  | 'friends+'
+  | 'friends'
+  | 'invite+'
+  | 'invite'
+  | 'group'
+
+/**
+ * グループインスタンスのアクセス種別
+ */
+export type GroupAccessType = 'public' | 'plus' | 'members'
+
+/**
+ * ワールド・インスタンスを指さない特殊な Location
+ */
+export type SpecialLocationKind = 'offline' | 'private' | 'traveling'
+
+/**
+ * 特殊な Location の解析結果
+ */
+export interface SpecialLocation {
+  /** Location の種類 */
+  kind: SpecialLocationKind
+  /** 元の Location 文字列 */
+  raw: string
+}
+
+/**
+ * インスタンスを指す Location の解析結果
+ */
+export interface InstanceLocation {
+  /** Location の種類 */
+  kind: 'instance'
+  /** 元の Location 文字列 */
+  raw: string
+  /** ワールド ID */
+  worldId: string
+  /** インスタンス名（`:` の直後の部分。例: `12345`） */
+  instanceName: string
+  /** アクセス種別 */
+  accessType: InstanceAccessType
+  /** インスタンスのオーナー（ユーザー ID またはグループ ID） */
+  ownerId: string | null
+  /** リージョン（例: `jp`） */
+  region: string | null
+  /** nonce */
+  nonce: string | null
+  /** グループインスタンスのアクセス種別 */
+  groupAccessType: GroupAccessType | null
+}
+
+/**
+ * 解釈できなかった Location の解析結果
+ */
+export interface UnknownLocation {
+  /** Location の種類 */
+  kind: 'unknown'
+  /** 元の Location 文字列 */
+  raw: string
+}
+
+/**
+ * Location の解析結果
+ */
+export type ParsedLocation =
+  | SpecialLocation
+  | InstanceLocation
+  | UnknownLocation
+
+/** アクセス種別の表示名 */
+const ACCESS_TYPE_LABELS: Record<InstanceAccessType, string> = {
+  public: 'Public',
+  'friends+': 'Friends+',
+  friends: 'Friends',
+  'invite+': 'Invite+',
+  invite: 'Invite',
+  group: 'Group',
+}
+
+/** グループアクセス種別の表示名 */
+const GROUP_ACCESS_TYPE_LABELS: Record<GroupAccessType, string> = {
+  public: 'Group Public',
+  plus: 'Group+',
+  members: 'Group',
+}
+
+/** 特殊な Location の表示名 */
+const SPECIAL_LOCATION_LABELS: Record<SpecialLocationKind, string> = {
+  offline: 'Offline',
+  private: 'Private',
+  traveling: 'Traveling',
+}
+
+/**
+ * インスタンスタグ（`~name(value)` または `~name`）を解析する
+ *
+ * @param tags `~` で分割したタグ文字列の配列
+ * @returns タグ名をキーとした値のマップ（値を持たないタグは空文字）
+ */
+function parseInstanceTags(tags: string[]): Map<string, string> {
+  const result = new Map<string, string>()
+
+  for (const tag of tags) {
+    const match = /^([^()]+)(?:\((.*)\))?$/.exec(tag)
+    if (!match) {
+      continue
+    }
+    // 値を持たないタグは 2 番目のグループが undefined になる
+    const [, name, value = ''] = match
+    result.set(name, value)
+  }
+
+  return result
+}
+
+/**
+ * 文字列が GroupAccessType かどうかを判定する
+ *
+ * @param value 判定する文字列
+ * @returns GroupAccessType の場合は true
+ */
+function isGroupAccessType(
+  value: string | undefined
+): value is GroupAccessType {
+  return value === 'public' || value === 'plus' || value === 'members'
+}
+
+/**
+ * VRChat の Location 文字列を解析する
+ *
+ * `wrld_xxx:12345~private(usr_xxx)~region(jp)~nonce(xxx)` のような文字列を
+ * ワールド ID・インスタンス名・アクセス種別などに分解する。
+ * null または空文字はオフラインとして扱う。
+ *
+ * @param location Location 文字列
+ * @returns 解析結果
+ */
+export function parseLocation(location: string | null): ParsedLocation {
+  if (location === null || location === '' || location === 'offline') {
+    return { kind: 'offline', raw: location ?? 'offline' }
+  }
+
+  if (location === 'private') {
+    return { kind: 'private', raw: location }
+  }
+
+  if (location === 'traveling' || location.startsWith('traveling:')) {
+    return { kind: 'traveling', raw: location }
+  }
+
+  const separatorIndex = location.indexOf(':')
+  const worldId =
+    separatorIndex === -1 ? location : location.slice(0, separatorIndex)
+  if (!worldId.startsWith('wrld_')) {
+    return { kind: 'unknown', raw: location }
+  }
+
+  if (separatorIndex === -1) {
+    // ワールド ID のみ（インスタンス情報なし）
+    return {
+      kind: 'instance',
+      raw: location,
+      worldId,
+      instanceName: '',
+      accessType: 'public',
+      ownerId: null,
+      region: null,
+      nonce: null,
+      groupAccessType: null,
+    }
+  }
+
+  const [instanceName, ...tagParts] = location
+    .slice(separatorIndex + 1)
+    .split('~')
+  const tags = parseInstanceTags(tagParts)
+
+  let accessType: InstanceAccessType = 'public'
+  let ownerId: string | null = null
+  let groupAccessType: GroupAccessType | null = null
+
+  if (tags.has('group')) {
+    accessType = 'group'
+    ownerId = tags.get('group') ?? null
+    const groupAccess = tags.get('groupAccessType')
+    groupAccessType = isGroupAccessType(groupAccess) ? groupAccess : null
+  } else if (tags.has('private')) {
+    accessType = tags.has('canRequestInvite') ? 'invite+' : 'invite'
+    ownerId = tags.get('private') ?? null
+  } else if (tags.has('friends')) {
+    accessType = 'friends'
+    ownerId = tags.get('friends') ?? null
+  } else if (tags.has('hidden')) {
+    accessType = 'friends+'
+    ownerId = tags.get('hidden') ?? null
+  }
+
+  return {
+    kind: 'instance',
+    raw: location,
+    worldId,
+    instanceName,
+    accessType,
+    ownerId: ownerId === '' ? null : ownerId,
+    region: tags.get('region') ?? null,
+    nonce: tags.get('nonce') ?? null,
+    groupAccessType,
+  }
+}
+
+/**
+ * 解析済みの Location からワールド ID を取得する
+ *
+ * @param parsed Location の解析結果
+ * @returns ワールド ID（インスタンスでない場合は null）
+ */
+export function getWorldId(parsed: ParsedLocation): string | null {
+  return parsed.kind === 'instance' ? parsed.worldId : null
+}
+
+/**
+ * 解析済みの Location を表示用の文字列に変換する
+ *
+ * 例: `Friends+ · JP · #12345`
+ *
+ * @param parsed Location の解析結果
+ * @returns 表示用の文字列
+ */
+export function formatLocation(parsed: ParsedLocation): string {
+  switch (parsed.kind) {
+    case 'offline':
+    case 'private':
+    case 'traveling': {
+      return SPECIAL_LOCATION_LABELS[parsed.kind]
+    }
+    case 'unknown': {
+      return parsed.raw
+    }
+    case 'instance': {
+      const parts = [
+        parsed.accessType === 'group' && parsed.groupAccessType
+          ? GROUP_ACCESS_TYPE_LABELS[parsed.groupAccessType]
+          : ACCESS_TYPE_LABELS[parsed.accessType],
+      ]
+      if (parsed.region) {
+        parts.push(parsed.region.toUpperCase())
+      }
+      if (parsed.instanceName) {
+        parts.push(`#${parsed.instanceName}`)
+      }
+      return parts.join(' · ')
+    }
+  }
+}
@@ -1,5 +1,11 @@
 import * as fs from 'node:fs'
 import path from 'node:path'
+import type { LocationChangeSource, LocationHistory } from './location-history'
+import {
+  getWorldId,
+  parseLocation,
+  type ParsedLocation,
+} from './location-parser'
 
 /** Location データファイルのパス（環境変数で上書き可能） */
 const LOCATION_FILE_PATH =
@@ -9,25 +15,37 @@ const LOCATION_FILE_PATH =
 const SAVE_DEBOUNCE_MS = 1000
 
 /**
- * ユーザーの Location 情報
+ * ファイルに保存するユーザーの Location 情報
  */
-export interface UserLocation {
+interface StoredUserLocation {
   /** ユーザー ID */
   userId: string
   /** ユーザーの表示名 */
   displayName: string
   /** 現在の Location */
   location: string | null
+  /** ステータス（未取得の場合は undefined） */
+  status?: string
+  /** ステータスメッセージ（未取得の場合は undefined） */
+  statusDescription?: string
   /** 最終更新日時（ISO 8601 形式） */
   updatedAt: string
 }
 
+/**
+ * ユーザーの Location 情報
+ */
+export interface UserLocation extends StoredUserLocation {
+  /** 現在の Location の解析結果 */
+  parsedLocation: ParsedLocation
+}
+
 /**
  * Location ストアのデータ構造
  */
 interface LocationStoreData {
   /** ユーザー ID をキーとした Location 情報のマップ */
-  users: Record<string, UserLocation>
+  users: Record<string, StoredUserLocation>
 }
 
 /**
@@ -40,6 +58,22 @@ export interface LocationChangeResult {
   previousLocation: string | null
   /** 現在の Location */
   currentLocation: string | null
+  /** 前回の Location の解析結果 */
+  previousParsedLocation: ParsedLocation | null
+  /** 現在の Location の解析結果 */
+  currentParsedLocation: ParsedLocation
+}
+
+/**
+ * ステータスの変更結果
+ */
+export interface StatusChangeResult {
+  /** ステータスまたはステータスメッセージが変更されたかどうか */
+  changed: boolean
+  /** 前回のステータス（未取得の場合は null） */
+  previousStatus: string | null
+  /** 前回のステータスメッセージ（未取得の場合は null） */
+  previousStatusDescription: string | null
 }
 
 /**
@@ -48,12 +82,16 @@ export interface LocationChangeResult {
 export class LocationStore {
   private data: LocationStoreData = { users: {} }
   private saveTimeout: NodeJS.Timeout | null = null
+  private history: LocationHistory | null
 
   /**
    * LocationStore を初期化する
    * ファイルから既存データを読み込む
+   *
+   * @param history Location の変化を記録する履歴（省略時は記録しない）
    */
-  constructor() {
+  constructor(history: LocationHistory | null = null) {
+    this.history = history
     this.load()
   }
 
@@ -81,6 +119,11 @@ export class LocationStore {
           return
         }
 
+        // 解析結果は Location から都度求めるため、以前保存していた解析結果は取り除く
+        for (const user of Object.values(parsed.users)) {
+          Reflect.deleteProperty(user, 'parsedLocation')
+        }
+
         this.data = parsed
         console.log(
           `[LOCATION-STORE] Loaded ${Object.keys(this.data.users).length} user(s) from file`
@@ -140,21 +183,59 @@ export class LocationStore {
     }
   }
 
+  /**
+   * Location の変化を履歴に記録する
+   *
+   * @param userId ユーザー ID
+   * @param displayName ユーザーの表示名
+   * @param from 変化前の Location
+   * @param to 変化後の Location の解析結果
+   * @param source 変化を検知した経路
+   */
+  private recordHistory(
+    userId: string,
+    displayName: string,
+    from: string | null,
+    to: ParsedLocation,
+    source: LocationChangeSource
+  ): void {
+    if (!this.history) {
+      return
+    }
+
+    this.history.append({
+      userId,
+      displayName,
+      from,
+      to: to.kind === 'offline' ? null : to.raw,
+      worldId: getWorldId(to),
+      timestamp: new Date().toISOString(),
+      source,
+    })
+  }
+
   /**
    * ユーザーの Location を更新する
    *
    * @param userId ユーザー ID
    * @param displayName ユーザーの表示名
    * @param location 新しい Location
+   * @param source 変化を検知した経路
    * @returns Location の変更結果
    */
   updateLocation(
     userId: string,
     displayName: string,
-    location: string | null
+    location: string | null,
+    source: LocationChangeSource = 'websocket'
   ): LocationChangeResult {
-    const previousData = this.data.users[userId] as UserLocation | undefined
+    const previousData = this.data.users[userId] as
+      | StoredUserLocation
+      | undefined
     const previousLocation = previousData?.location ?? null
+    const previousParsedLocation = previousData
+      ? parseLocation(previousData.location)
+      : null
 
     // Location が変更されていない場合は何もしない
     if (previousLocation === location) {
@@ -162,23 +243,37 @@ export class LocationStore {
         changed: false,
         previousLocation,
         currentLocation: location,
+        previousParsedLocation,
+        currentParsedLocation:
+          previousParsedLocation ?? parseLocation(location),
       }
     }
 
     // Location を更新
+    const parsedLocation = parseLocation(location)
     this.data.users[userId] = {
+      ...previousData,
       userId,
       displayName,
       location,
       updatedAt: new Date().toISOString(),
     }
 
+    this.recordHistory(
+      userId,
+      displayName,
+      previousLocation,
+      parsedLocation,
+      source
+    )
     this.scheduleSave()
 
     return {
       changed: true,
       previousLocation,
       currentLocation: location,
+      previousParsedLocation,
+      currentParsedLocation: parsedLocation,
     }
   }
 
@@ -186,33 +281,91 @@ export class LocationStore {
    * ユーザーの初期 Location を設定する（通知なし）
    * 起動時に現在の状態を保存するために使用
    *
+   * 前回保存された Location から変化している場合は履歴に記録する
+   *
    * @param userId ユーザー ID
    * @param displayName ユーザーの表示名
    * @param location 現在の Location
+   * @param source 変化を検知した経路
    */
   setInitialLocation(
     userId: string,
     displayName: string,
-    location: string | null
+    location: string | null,
+    source: LocationChangeSource = 'startup'
   ): void {
+    const previousData = this.data.users[userId] as
+      | StoredUserLocation
+      | undefined
+    const previousLocation = previousData?.location ?? null
+    const parsedLocation = parseLocation(location)
+
     this.data.users[userId] = {
+      ...previousData,
       userId,
       displayName,
       location,
       updatedAt: new Date().toISOString(),
     }
 
+    if (previousLocation !== location) {
+      this.recordHistory(
+        userId,
+        displayName,
+        previousLocation,
+        parsedLocation,
+        source
+      )
+    }
+    this.scheduleSave()
+  }
+
+  /**
+   * ユーザーのステータスとステータスメッセージを更新する
+   * Location が保存されていないユーザーは無視する
+   *
+   * @param userId ユーザー ID
+   * @param status 新しいステータス
+   * @param statusDescription 新しいステータスメッセージ
+   * @returns ステータスの変更結果
+   */
+  updateStatus(
+    userId: string,
+    status: string,
+    statusDescription: string
+  ): StatusChangeResult {
+    const userData = this.data.users[userId] as StoredUserLocation | undefined
+    const previousStatus = userData?.status ?? null
+    const previousStatusDescription = userData?.statusDescription ?? null
+
+    if (
+      !userData ||
+      (previousStatus === status &&
+        previousStatusDescription === statusDescription)
+    ) {
+      return { changed: false, previousStatus, previousStatusDescription }
+    }
+
+    userData.status = status
+    userData.statusDescription = statusDescription
+    userData.updatedAt = new Date().toISOString()
     this.scheduleSave()
+
+    return { changed: true, previousStatus, previousStatusDescription }
   }
 
   /**
    * ユーザーの Location を取得する
    *
    * @param userId ユーザー ID
-   * @returns Location 情報、存在しない場合は undefined
+   * @returns Location 情報（解析結果を含む）、存在しない場合は undefined
    */
   getLocation(userId: string): UserLocation | undefined {
-    return this.data.users[userId]
+    const userData = this.data.users[userId] as StoredUserLocation | undefined
+    if (!userData) {
+      return undefined
+    }
+    return { ...userData, parsedLocation: parseLocation(userData.location) }
   }
 
   /**
@@ -223,7 +376,7 @@ export class LocationStore {
    * @returns 表示名、存在しない場合は undefined
    */
   getDisplayName(userId: string): string | undefined {
-    const userData = this.data.users[userId] as UserLocation | undefined
+    const userData = this.data.users[userId] as StoredUserLocation | undefined
     return userData?.displayName
   }
 
@@ -234,7 +387,7 @@ export class LocationStore {
    * @param displayName 新しい表示名
    */
   updateDisplayName(userId: string, displayName: string): void {
-    const userData = this.data.users[userId] as UserLocation | undefined
+    const userData = this.data.users[userId] as StoredUserLocation | undefined
     if (userData) {
       userData.displayName = displayName
       this.scheduleSave()
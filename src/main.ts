@@ -1,9 +1,29 @@
-import { loadConfig, type Config } from './config'
-import { DiscordNotifier } from './discord-notifier'
+import { AdminApi } from './admin-api'
+import { loadConfig, type Config, type UserSettings } from './config'
+import { ConfigWatcher } from './config-watcher'
 import { HealthServer } from './health-server'
+import { formatLocation, parseLocation } from './location-parser'
+import { LocationHistory } from './location-history'
 import { LocationStore } from './location-store'
-import { getUser, isFriend } from './vrchat-client'
+import { eventsDroppedCounter, eventsReceivedCounter } from './metrics'
+import { NotificationCoalescer } from './notification-coalescer'
+import { NotificationDispatcher } from './notification-dispatcher'
+import { OperatorAlerter } from './operator-alerter'
+import { PresenceApi } from './presence-api'
+import { ProfileStore, type UserProfile } from './profile-store'
+import { Reconciler } from './reconciler'
+import { SessionTracker } from './session-tracker'
+import { TwoFactorApi } from './two-factor-api'
+import {
+  getFriendIds,
+  getFriends,
+  getUser,
+  isFriend,
+  type UserInfo,
+} from './vrchat-client'
+import { WatchList } from './watch-list'
 import { WebSocketMonitor } from './websocket-monitor'
+import { WorldInfoService } from './world-info-service'
 import type { VRChat } from 'vrchat'
 
 /**
@@ -17,6 +37,9 @@ interface FriendLocationEvent {
     id: string
     displayName: string
     currentAvatarThumbnailImageUrl?: string
+    bio?: string
+    pronouns?: string
+    profilePicOverride?: string
   }
   /** 現在の Location */
   location: string
@@ -38,7 +61,12 @@ interface FriendOnlineEvent {
   user: {
     id: string
     displayName: string
+    bio?: string
+    pronouns?: string
+    profilePicOverride?: string
   }
+  /** 現在の Location（含まれない場合がある） */
+  location?: string
 }
 
 /**
@@ -49,6 +77,92 @@ interface FriendOfflineEvent {
   userId: string
 }
 
+/**
+ * friend-add イベントのデータ構造
+ */
+interface FriendAddEvent {
+  /** ユーザー ID */
+  userId: string
+  /** ユーザー情報 */
+  user: {
+    id: string
+    displayName: string
+  }
+}
+
+/**
+ * friend-delete イベントのデータ構造
+ */
+interface FriendDeleteEvent {
+  /** ユーザー ID */
+  userId: string
+}
+
+/**
+ * friend-update イベントのデータ構造
+ */
+interface FriendUpdateEvent {
+  /** ユーザー ID */
+  userId: string
+  /** ユーザー情報 */
+  user: {
+    id: string
+    displayName: string
+    status: string
+    statusDescription?: string
+    bio?: string
+    pronouns?: string
+    profilePicOverride?: string
+  }
+}
+
+/**
+ * イベントのユーザー情報に含まれるプロフィールの項目が有効かを検証する
+ *
+ * @param user イベントのユーザー情報
+ * @returns 含まれる項目がすべて文字列の場合は true
+ */
+function hasValidProfileFields(user: Record<string, unknown>): boolean {
+  return ['bio', 'pronouns', 'profilePicOverride'].every(
+    (key) => user[key] === undefined || typeof user[key] === 'string'
+  )
+}
+
+/**
+ * イベントのユーザー情報からプロフィールを取り出す
+ *
+ * @param user イベントのユーザー情報
+ * @returns プロフィール（イベントに含まれない項目は undefined）
+ */
+function getEventProfile(user: {
+  displayName: string
+  bio?: string
+  pronouns?: string
+  profilePicOverride?: string
+}): UserProfile {
+  return {
+    displayName: user.displayName,
+    bio: user.bio,
+    pronouns: user.pronouns,
+    profilePicture: user.profilePicOverride,
+  }
+}
+
+/**
+ * ユーザー情報からプロフィールを取り出す
+ *
+ * @param userInfo ユーザー情報
+ * @returns プロフィール
+ */
+function getUserInfoProfile(userInfo: UserInfo): UserProfile {
+  return {
+    displayName: userInfo.displayName,
+    bio: userInfo.bio,
+    pronouns: userInfo.pronouns,
+    profilePicture: userInfo.profilePicOverride,
+  }
+}
+
 /**
  * FriendLocationEvent の型ガード
  *
@@ -80,7 +194,7 @@ function isFriendLocationEvent(data: unknown): data is FriendLocationEvent {
     return false
   }
 
-  return true
+  return hasValidProfileFields(user)
 }
 
 /**
@@ -96,7 +210,11 @@ function isFriendOnlineEvent(data: unknown): data is FriendOnlineEvent {
 
   const obj = data as Record<string, unknown>
 
-  if (typeof obj.userId !== 'string') {
+  // Location は含まれない場合があるため、含まれる場合のみ形式を確認する
+  if (
+    typeof obj.userId !== 'string' ||
+    (obj.location !== undefined && typeof obj.location !== 'string')
+  ) {
     return false
   }
 
@@ -110,7 +228,7 @@ function isFriendOnlineEvent(data: unknown): data is FriendOnlineEvent {
     return false
   }
 
-  return true
+  return hasValidProfileFields(user)
 }
 
 /**
@@ -129,16 +247,115 @@ function isFriendOfflineEvent(data: unknown): data is FriendOfflineEvent {
   return typeof obj.userId === 'string'
 }
 
+/**
+ * FriendAddEvent の型ガード
+ *
+ * @param data 検証するデータ
+ * @returns FriendAddEvent として有効な場合は true
+ */
+function isFriendAddEvent(data: unknown): data is FriendAddEvent {
+  if (typeof data !== 'object' || data === null) {
+    return false
+  }
+
+  const obj = data as Record<string, unknown>
+
+  if (typeof obj.userId !== 'string') {
+    return false
+  }
+
+  if (typeof obj.user !== 'object' || obj.user === null) {
+    return false
+  }
+
+  const user = obj.user as Record<string, unknown>
+
+  return typeof user.id === 'string' && typeof user.displayName === 'string'
+}
+
+/**
+ * FriendDeleteEvent の型ガード
+ *
+ * @param data 検証するデータ
+ * @returns FriendDeleteEvent として有効な場合は true
+ */
+function isFriendDeleteEvent(data: unknown): data is FriendDeleteEvent {
+  if (typeof data !== 'object' || data === null) {
+    return false
+  }
+
+  const obj = data as Record<string, unknown>
+
+  return typeof obj.userId === 'string'
+}
+
+/**
+ * FriendUpdateEvent の型ガード
+ *
+ * @param data 検証するデータ
+ * @returns FriendUpdateEvent として有効な場合は true
+ */
+function isFriendUpdateEvent(data: unknown): data is FriendUpdateEvent {
+  if (typeof data !== 'object' || data === null) {
+    return false
+  }
+
+  const obj = data as Record<string, unknown>
+
+  if (typeof obj.userId !== 'string') {
+    return false
+  }
+
+  if (typeof obj.user !== 'object' || obj.user === null) {
+    return false
+  }
+
+  const user = obj.user as Record<string, unknown>
+
+  if (
+    typeof user.id !== 'string' ||
+    typeof user.displayName !== 'string' ||
+    typeof user.status !== 'string'
+  ) {
+    return false
+  }
+
+  if (
+    user.statusDescription !== undefined &&
+    typeof user.statusDescription !== 'string'
+  ) {
+    return false
+  }
+
+  return hasValidProfileFields(user)
+}
+
 /**
  * メインアプリケーションクラス
  */
 class WatchVRChatUser {
   private config: Config
   private vrchat: VRChat | null = null
-  private notifier: DiscordNotifier
+  private notifier: NotificationDispatcher
+  private coalescer: NotificationCoalescer
+  private locationHistory: LocationHistory
   private locationStore: LocationStore
+  private sessionTracker: SessionTracker
+  private profileStore: ProfileStore
+  private worldInfo: WorldInfoService
+  private watchList: WatchList
   private monitor: WebSocketMonitor
+  private reconciler: Reconciler
   private healthServer: HealthServer
+  private operatorAlerter: OperatorAlerter
+  private twoFactorApi: TwoFactorApi
+  private configWatcher: ConfigWatcher | null = null
+  private friendRefreshTimer: NodeJS.Timeout | null = null
+  private isCheckingFriendships = false
+  /** API 呼び出し回数の上限で確認しきれなかったフレンド状態の確認の再開位置 */
+  private friendshipCheckCursor = 0
+  /** 監視対象ユーザーごとの最後に確認したフレンド状態 */
+  private friendships = new Map<string, boolean>()
   private isShuttingDown = false
 
   /**
@@ -148,10 +365,86 @@ class WatchVRChatUser {
    */
   constructor(config: Config) {
     this.config = config
-    this.notifier = new DiscordNotifier(config)
-    this.locationStore = new LocationStore()
-    this.monitor = new WebSocketMonitor(config)
+    this.notifier = new NotificationDispatcher(config)
+    this.coalescer = new NotificationCoalescer(
+      this.notifier,
+      config.notificationCoalesceWindowMs
+    )
+    this.locationHistory = new LocationHistory(config.locationHistory)
+    this.locationStore = new LocationStore(this.locationHistory)
+    this.sessionTracker = new SessionTracker()
+    this.profileStore = new ProfileStore()
+    this.worldInfo = new WorldInfoService(config.worldCacheTtlMs)
+    this.watchList = new WatchList(config)
+    this.twoFactorApi = new TwoFactorApi(config.vrchat.twoFactorTimeoutMs)
+    // コンソールを使えない環境では、2FA コードをヘルスチェックサーバー経由で受け付ける
+    this.monitor = new WebSocketMonitor(
+      config,
+      config.vrchat.twoFactorInput === 'http'
+        ? () => this.twoFactorApi.requestCode()
+        : undefined
+    )
     this.healthServer = new HealthServer(this.monitor)
+    this.operatorAlerter = new OperatorAlerter(
+      config.operatorAlert,
+      this.monitor,
+      this.notifier
+    )
+    this.reconciler = new Reconciler(
+      config.reconcile,
+      this.watchList,
+      () => this.vrchat,
+      (userInfo: UserInfo, fetchedAt: number) =>
+        this.reconcileUser(userInfo, fetchedAt)
+    )
+
+    const adminApi = new AdminApi(
+      this.watchList,
+      (userId: string) => this.seedUser(userId),
+      () => this.getNotFriendIds()
+    )
+    const presenceApi = new PresenceApi(
+      this.watchList,
+      this.locationStore,
+      this.locationHistory,
+      this.sessionTracker,
+      this.worldInfo,
+      this.profileStore
+    )
+    this.healthServer.addHandler((request, response, url) =>
+      adminApi.handle(request, response, url)
+    )
+    this.healthServer.addHandler((request, response, url) =>
+      presenceApi.handle(request, response, url)
+    )
+    this.healthServer.addHandler((request, response, url) =>
+      this.twoFactorApi.handle(request, response, url)
+    )
+    this.healthServer.addStatusProvider('notificationOutbox', () =>
+      this.notifier.getOutboxStatus()
+    )
+    this.healthServer.addStatusProvider('reconciler', () =>
+      this.reconciler.getStatus()
+    )
+    this.healthServer.addStatusProvider('operatorAlerts', () =>
+      this.operatorAlerter.getStatus()
+    )
+    this.healthServer.addStatusProvider('twoFactor', () =>
+      this.twoFactorApi.getStatus()
+    )
+    // ユーザー ID は管理 API（GET /admin/users）でのみ返し、/health では件数のみ返す
+    this.healthServer.addStatusProvider('friendships', () => ({
+      notFriends: this.getNotFriendIds().length,
+    }))
+
+    if (config.configFilePath) {
+      this.configWatcher = new ConfigWatcher(
+        config.configFilePath,
+        (nextConfig: Config) => {
+          this.applyConfig(nextConfig)
+        }
+      )
+    }
   }
 
   /**
@@ -166,17 +459,35 @@ class WatchVRChatUser {
     // ヘルスチェックサーバーを開始
     this.healthServer.start()
 
+    // 通知の配信を開始（前回送信できなかった通知を再送信）
+    this.notifier.start()
+
+    // 設定ファイルの監視を開始
+    this.configWatcher?.start()
+
+    // フレンド状態の定期確認を開始（すべてのフレンドを監視する場合はフレンド一覧も更新する）
+    this.friendRefreshTimer = setInterval(() => {
+      this.checkFriendships().catch((error: unknown) => {
+        console.error('[MAIN] Error checking friendships:', error)
+      })
+    }, this.config.friendListRefreshIntervalMs)
+
+    // WebSocket イベントの取りこぼしを検知する照合を開始
+    this.reconciler.start()
+
     // WebSocket 接続監視を開始
-    await this.monitor.start(
-      (vrchat: VRChat) => {
-        this.handleConnected(vrchat).catch((error: unknown) => {
-          console.error('[MAIN] Error in handleConnected:', error)
-        })
-      },
-      () => {
-        this.handleDisconnected()
-      }
-    )
+    this.monitor.on('connected', (vrchat: VRChat) => {
+      this.handleConnected(vrchat).catch((error: unknown) => {
+        console.error('[MAIN] Error in handleConnected:', error)
+      })
+    })
+    this.monitor.on('disconnected', (reason: string) => {
+      this.handleDisconnected(reason)
+    })
+    this.monitor.on('degraded', (vrchat: VRChat) => {
+      this.handleDegraded(vrchat)
+    })
+    await this.monitor.start()
 
     console.log('[MAIN] Application started. Listening for events...')
   }
@@ -185,36 +496,338 @@ class WatchVRChatUser {
    * シグナルハンドラを設定する
    */
   private setupSignalHandlers(): void {
-    const shutdown = () => {
-      if (this.isShuttingDown) {
+    process.on('SIGINT', () => {
+      this.shutdown()
+    })
+    process.on('SIGTERM', () => {
+      this.shutdown()
+    })
+  }
+
+  /**
+   * 保留中の通知を送信待ちの通知に移してから終了する
+   */
+  private shutdown(): void {
+    if (this.isShuttingDown) {
+      return
+    }
+    this.isShuttingDown = true
+
+    console.log('\n[MAIN] Shutting down...')
+
+    this.coalescer
+      .flush()
+      .catch((error: unknown) => {
+        console.error('[MAIN] Failed to flush pending notifications:', error)
+      })
+      .finally(() => {
+        this.finishShutdown()
+      })
+  }
+
+  /**
+   * 各コンポーネントを停止してプロセスを終了する
+   */
+  private finishShutdown(): void {
+    // Location ストアをフラッシュ
+    this.locationStore.flush()
+    this.sessionTracker.flush()
+    this.profileStore.flush()
+    this.worldInfo.flush()
+
+    // 2FA コードの送信待ちを中断し、WebSocket 監視を停止
+    this.twoFactorApi.cancel()
+    this.monitor.stop()
+
+    // 照合を停止
+    this.reconciler.stop()
+
+    // 通知の配信を停止（送信待ちの通知は次回起動時に再送信）
+    this.notifier.stop()
+
+    // ヘルスチェックサーバーを停止
+    this.healthServer.stop()
+
+    // 設定ファイルの監視を停止
+    this.configWatcher?.stop()
+
+    // フレンド一覧の定期更新を停止
+    if (this.friendRefreshTimer) {
+      clearInterval(this.friendRefreshTimer)
+      this.friendRefreshTimer = null
+    }
+
+    console.log('[MAIN] Goodbye!')
+    // eslint-disable-next-line unicorn/no-process-exit
+    process.exit(0)
+  }
+
+  /**
+   * 再読み込みした設定を適用する
+   *
+   * WebSocket 接続は維持したまま、監視対象ユーザー・ユーザーごとの設定・
+   * 通知先・ルーティングルールを置き換える。VRChat の認証情報の変更は
+   * 再起動するまで反映されない。
+   *
+   * @param nextConfig 再読み込みした設定
+   */
+  private applyConfig(nextConfig: Config): void {
+    if (
+      nextConfig.vrchat.username !== this.config.vrchat.username ||
+      nextConfig.vrchat.password !== this.config.vrchat.password ||
+      nextConfig.vrchat.totpSecret !== this.config.vrchat.totpSecret
+    ) {
+      console.warn(
+        '[MAIN] VRChat credentials changed. Restart the application to apply them.'
+      )
+    }
+
+    const previousUserIds = new Set(this.watchList.getUserIds())
+    const watchAllFriendsEnabled =
+      nextConfig.watchAllFriends && !this.config.watchAllFriends
+
+    // WebSocketMonitor と同じ Config オブジェクトを共有しているため、
+    // 認証情報以外の項目のみを置き換える
+    this.config.notifiers = nextConfig.notifiers
+    this.config.routingRules = nextConfig.routingRules
+    this.config.targetUserIds = nextConfig.targetUserIds
+    this.config.watchAllFriends = nextConfig.watchAllFriends
+    this.config.excludedUserIds = nextConfig.excludedUserIds
+    this.config.users = nextConfig.users
+
+    this.notifier.reload(this.config)
+
+    console.log(
+      `[MAIN] Configuration reloaded: ${this.watchList.getUserIds().length} target user(s)`
+    )
+
+    // 新たに監視対象になったユーザーの初期状態を取得
+    this.seedNewUsers(previousUserIds, watchAllFriendsEnabled).catch(
+      (error: unknown) => {
+        console.error('[MAIN] Error initializing new target users:', error)
+      }
+    )
+  }
+
+  /**
+   * 新たに監視対象になったユーザーの初期状態を取得する（通知なし）
+   *
+   * @param previousUserIds 変更前の監視対象ユーザー ID
+   * @param loadFriends フレンド一覧をまとめて取得する場合は true
+   */
+  private async seedNewUsers(
+    previousUserIds: Set<string>,
+    loadFriends: boolean
+  ): Promise<void> {
+    if (!this.vrchat) {
+      return
+    }
+
+    const friends = loadFriends ? await this.loadFriends() : null
+
+    for (const userId of this.watchList.getUserIds()) {
+      if (previousUserIds.has(userId)) {
+        continue
+      }
+
+      const userInfo = friends?.get(userId)
+      if (userInfo) {
+        this.recordInitialState(userInfo)
+      } else {
+        await this.seedUser(userId)
+      }
+    }
+  }
+
+  /**
+   * すべてのフレンドをまとめて取得し、監視対象のフレンド一覧を置き換える
+   *
+   * @returns ユーザー ID をキーとしたフレンドのユーザー情報（取得に失敗した場合は null）
+   */
+  private async loadFriends(): Promise<Map<string, UserInfo> | null> {
+    if (!this.vrchat) {
+      return null
+    }
+
+    const friends = await getFriends(this.vrchat)
+    if (!friends) {
+      console.warn('[MAIN] Failed to load friend list')
+      return null
+    }
+
+    this.watchList.setFriendIds(friends.map((friend) => friend.id))
+    console.log(`[MAIN] Loaded ${friends.length} friend(s)`)
+
+    return new Map(friends.map((friend) => [friend.id, friend]))
+  }
+
+  /**
+   * 監視対象ユーザーのフレンド状態を確認する
+   *
+   * すべてのフレンドを監視する場合はフレンド一覧を更新し、一覧から判定する。
+   * フレンドになったユーザーは初期状態を取得する。
+   */
+  private async checkFriendships(): Promise<void> {
+    // 前回の確認が終わっていない場合は重ねて確認しない
+    if (!this.vrchat || this.isCheckingFriendships) {
+      return
+    }
+
+    this.isCheckingFriendships = true
+    try {
+      await this.refreshFriendships(this.vrchat)
+    } finally {
+      this.isCheckingFriendships = false
+    }
+  }
+
+  /**
+   * 監視対象ユーザーのフレンド状態を取得して更新する
+   *
+   * @param vrchat VRChat クライアント
+   */
+  private async refreshFriendships(vrchat: VRChat): Promise<void> {
+    let friendIds: Set<string> | null = null
+    if (this.config.watchAllFriends) {
+      const ids = await getFriendIds(vrchat)
+      if (!ids) {
+        console.warn('[MAIN] Failed to refresh friend list')
+        return
+      }
+
+      const { added, removed } = this.watchList.setFriendIds(ids)
+      if (added.length > 0 || removed.length > 0) {
+        console.log(
+          `[MAIN] Friend list refreshed: ${added.length} added, ${removed.length} removed`
+        )
+      }
+
+      for (const userId of removed) {
+        await this.updateFriendship(userId, false)
+      }
+      friendIds = new Set(ids)
+    }
+
+    // 監視対象から外れたユーザーのフレンド状態を破棄
+    for (const userId of this.friendships.keys()) {
+      if (!this.watchList.isWatched(userId)) {
+        this.friendships.delete(userId)
+      }
+    }
+
+    const userIds = this.watchList.getUserIds()
+    for (const [index, userId] of this.getFriendshipCheckOrder(
+      userIds
+    ).entries()) {
+      // ユーザーごとに確認する場合は、照合と同じ API 呼び出し回数の上限に含める
+      if (!friendIds && !this.reconciler.tryConsumeBudget()) {
+        this.friendshipCheckCursor =
+          (this.friendshipCheckCursor + index) % userIds.length
+        console.warn(
+          `[MAIN] API budget exhausted, ${userIds.length - index} friendship check(s) deferred to the next refresh`
+        )
         return
       }
-      this.isShuttingDown = true
 
-      console.log('\n[MAIN] Shutting down...')
+      const friend = friendIds
+        ? friendIds.has(userId)
+        : await isFriend(vrchat, userId)
+      if (friend === null) {
+        continue
+      }
+
+      if (await this.updateFriendship(userId, friend)) {
+        await this.seedUser(userId)
+      }
+    }
+  }
 
-      // Location ストアをフラッシュ
-      this.locationStore.flush()
+  /**
+   * フレンド状態を確認する順番を求める
+   * API 呼び出し回数の上限で確認しきれなかったユーザーから確認する
+   *
+   * @param userIds 監視対象ユーザー ID の配列
+   * @returns 確認する順番に並べたユーザー ID の配列
+   */
+  private getFriendshipCheckOrder(userIds: string[]): string[] {
+    const start =
+      userIds.length > 0 ? this.friendshipCheckCursor % userIds.length : 0
+    return [...userIds.slice(start), ...userIds.slice(0, start)]
+  }
 
-      // WebSocket 監視を停止
-      this.monitor.stop()
+  /**
+   * フレンドでない監視対象ユーザーの ID を取得する
+   *
+   * @returns 最後の確認でフレンドでなかったユーザー ID の配列
+   */
+  private getNotFriendIds(): string[] {
+    return [...this.friendships]
+      .filter(([, friend]) => !friend)
+      .map(([userId]) => userId)
+  }
 
-      // ヘルスチェックサーバーを停止
-      this.healthServer.stop()
+  /**
+   * 監視対象ユーザーのフレンド状態を更新する
+   *
+   * 前回確認した状態から変化した場合は通知を送信する。
+   * 監視対象でないユーザーは状態を破棄する。
+   *
+   * @param userId ユーザー ID
+   * @param friend フレンドかどうか
+   * @param displayName ユーザーの表示名（省略時は保存されている表示名）
+   * @returns 監視対象のユーザーがフレンドになった場合（初期状態の取得が必要な場合）は true
+   */
+  private async updateFriendship(
+    userId: string,
+    friend: boolean,
+    displayName?: string
+  ): Promise<boolean> {
+    const previous = this.friendships.get(userId)
+    const watched = this.watchList.isWatched(userId)
+    if (watched) {
+      this.friendships.set(userId, friend)
+    } else {
+      this.friendships.delete(userId)
+    }
 
-      console.log('[MAIN] Goodbye!')
-      // eslint-disable-next-line unicorn/no-process-exit
-      process.exit(0)
+    if (previous !== undefined && previous !== friend) {
+      const name =
+        displayName ?? this.locationStore.getDisplayName(userId) ?? userId
+      console.log(
+        `[MAIN] Friendship changed: ${name} (${userId}) - ${friend ? 'friend' : 'not friend'}`
+      )
+      await this.notifier.notifyFriendshipChange({
+        displayName: this.getNotificationName(userId, name),
+        userId,
+        isFriend: friend,
+      })
     }
 
-    process.on('SIGINT', shutdown)
-    process.on('SIGTERM', shutdown)
+    return watched && friend && previous !== true
+  }
+
+  /**
+   * 通知に表示するユーザー名を取得する
+   * ニックネームが設定されている場合は `ニックネーム (表示名)` とする
+   *
+   * @param userId ユーザー ID
+   * @param displayName ユーザーの表示名
+   * @returns 通知に表示するユーザー名
+   */
+  private getNotificationName(userId: string, displayName: string): string {
+    const settings = this.config.users[userId] as UserSettings | undefined
+    const nickname = settings?.nickname
+    return nickname ? `${nickname} (${displayName})` : displayName
   }
 
   /**
    * ターゲットユーザーがフレンドかどうかを検証する
+   *
+   * @param friends まとめて取得したフレンド（指定した場合は API を呼び出さずに判定する）
    */
-  private async validateTargetUsers(): Promise<void> {
+  private async validateTargetUsers(
+    friends: Map<string, UserInfo> | null = null
+  ): Promise<void> {
     console.log('[MAIN] Validating target users...')
 
     if (!this.vrchat) {
@@ -222,9 +835,18 @@ class WatchVRChatUser {
     }
 
     const notFriends: string[] = []
+    const targetUserIds = this.watchList.getUserIds()
+
+    for (const userId of targetUserIds) {
+      const isFriendResult = friends
+        ? friends.has(userId)
+        : await isFriend(this.vrchat, userId)
+      if (isFriendResult === null) {
+        continue
+      }
 
-    for (const userId of this.config.targetUserIds) {
-      const isFriendResult = await isFriend(this.vrchat, userId)
+      // 切断中に変化していれば通知する（初期状態は後続の処理で取得する）
+      await this.updateFriendship(userId, isFriendResult)
       if (!isFriendResult) {
         notFriends.push(userId)
       }
@@ -239,7 +861,7 @@ class WatchVRChatUser {
       )
     } else {
       console.log(
-        `[MAIN] All ${this.config.targetUserIds.length} target user(s) are friends.`
+        `[MAIN] All ${targetUserIds.length} target user(s) are friends.`
       )
     }
   }
@@ -249,73 +871,236 @@ class WatchVRChatUser {
    *
    * 前回保存された状態と現在の状態を比較し、変化があれば通知を送信する。
    * 初回起動時など、前回の状態が存在しない場合は初期状態として保存するのみで通知は行わない。
+   *
+   * @param friends まとめて取得したフレンド（含まれないユーザーは個別に取得する）
    */
-  private async fetchInitialUserStatuses(): Promise<void> {
+  private async fetchInitialUserStatuses(
+    friends: Map<string, UserInfo> | null = null
+  ): Promise<void> {
     console.log('[MAIN] Fetching initial user statuses...')
 
     if (!this.vrchat) {
       throw new Error('VRChat client is not initialized')
     }
 
-    for (const userId of this.config.targetUserIds) {
-      const userInfo = await getUser(this.vrchat, userId)
+    for (const userId of this.watchList.getUserIds()) {
+      const userInfo =
+        friends?.get(userId) ??
+        (await getUser(this.vrchat, userId, this.worldInfo))
 
       if (!userInfo) {
         console.warn(`[MAIN] Failed to fetch user info for ${userId}`)
         continue
       }
 
-      // 前回の状態を取得
-      const previousLocation =
-        this.locationStore.getLocation(userId)?.location ?? null
-      const currentLocation = userInfo.location
+      await this.applyUserInfo(userInfo, 'startup')
 
-      // 初期状態を保存
-      this.locationStore.setInitialLocation(
-        userId,
-        userInfo.displayName,
-        currentLocation
+      const locationDisplay = formatLocation(parseLocation(userInfo.location))
+      console.log(
+        `[MAIN] Initial status: ${userInfo.displayName} (${userId}) - ${userInfo.status} @ ${locationDisplay}`
       )
+    }
 
-      // 状態変化があれば通知
-      if (previousLocation !== currentLocation) {
-        console.log(
-          `[MAIN] State changed during downtime: ${userInfo.displayName} (${userId}) - ${previousLocation ?? 'offline'} -> ${currentLocation ?? 'offline'}`
-        )
+    console.log('[MAIN] Initial user statuses fetched.')
+  }
 
-        // 状態変化に応じて通知を送信
-        if (currentLocation === null) {
-          // オンライン -> オフライン
-          await this.notifier.notifyOffline({
-            displayName: userInfo.displayName,
-            userId,
-          })
-        } else if (previousLocation === null) {
-          // オフライン -> オンライン
-          await this.notifier.notifyOnline({
-            displayName: userInfo.displayName,
-            userId,
-          })
-        } else {
-          // ロケーション間移動
-          await this.notifier.notifyLocationChange({
-            displayName: userInfo.displayName,
-            userId,
-            previousLocation,
-            currentLocation,
-            worldName: undefined, // 起動時は取得しない
-            thumbnailUrl: undefined,
-          })
-        }
-      }
+  /**
+   * 取得したユーザー情報を保存されている状態と比較し、変化があれば通知を送信する
+   *
+   * @param userInfo ユーザー情報
+   * @param source 状態を取得した経路（startup: 起動時、poll: 照合のポーリング）
+   * @returns 状態が変化していた場合は true
+   */
+  private async applyUserInfo(
+    userInfo: UserInfo,
+    source: 'startup' | 'poll'
+  ): Promise<boolean> {
+    const userId = userInfo.id
+    const polled = source === 'poll'
+
+    // 前回の状態を取得
+    const previousData = this.locationStore.getLocation(userId)
+    const previousLocation = previousData?.location ?? null
+    const currentLocation = userInfo.location
+    const currentParsedLocation = parseLocation(currentLocation)
+
+    // 現在の状態を保存
+    this.locationStore.setInitialLocation(
+      userId,
+      userInfo.displayName,
+      currentLocation,
+      source
+    )
+
+    // セッションを更新（停止中に終了したセッションもここで閉じる）
+    // 停止中の時間を含めないよう、起動時は前回の停止日時で閉じる
+    const now = new Date()
+    const closedAt =
+      source === 'startup'
+        ? (this.sessionTracker.getPreviousSavedAt() ?? now)
+        : now
+    const transition = this.sessionTracker.recordLocation(
+      userId,
+      currentParsedLocation,
+      now,
+      closedAt
+    )
 
-      const locationDisplay = currentLocation ?? 'offline'
+    // 状態変化があれば通知
+    const locationChanged = previousLocation !== currentLocation
+    if (locationChanged) {
       console.log(
-        `[MAIN] Initial status: ${userInfo.displayName} (${userId}) - ${userInfo.status} @ ${locationDisplay}`
+        `[MAIN] State changed ${polled ? '(detected by polling)' : 'during downtime'}: ${userInfo.displayName} (${userId}) - ${formatLocation(parseLocation(previousLocation))} -> ${formatLocation(currentParsedLocation)}`
       )
+
+      // 状態変化に応じて通知を送信
+      if (currentLocation === null) {
+        // オンライン -> オフライン
+        await this.coalescer.notifyOffline({
+          displayName: this.getNotificationName(userId, userInfo.displayName),
+          userId,
+          onlineDurationMs: transition.onlineDurationMs ?? undefined,
+          previousLocation: previousData?.parsedLocation ?? null,
+          polled,
+        })
+      } else if (previousLocation === null) {
+        // オフライン -> オンライン
+        await this.coalescer.notifyOnline({
+          displayName: this.getNotificationName(userId, userInfo.displayName),
+          userId,
+          polled,
+        })
+      } else {
+        // ロケーション間移動（まとめて取得したフレンドはワールド情報を含まないため解決する）
+        const world =
+          userInfo.world ??
+          (await this.worldInfo.resolve(this.vrchat, currentParsedLocation))
+        await this.coalescer.notifyLocationChange({
+          displayName: this.getNotificationName(userId, userInfo.displayName),
+          userId,
+          previousLocation: previousData?.parsedLocation ?? null,
+          currentLocation: currentParsedLocation,
+          worldName: world?.name,
+          worldAuthorName: world?.authorName,
+          worldCapacity: world?.capacity,
+          thumbnailUrl: world?.thumbnailImageUrl,
+          previousStayMs: transition.previousStayMs ?? undefined,
+          polled,
+        })
+      }
     }
 
-    console.log('[MAIN] Initial user statuses fetched.')
+    // ステータスを更新（変化していれば通知）
+    const statusChanged = await this.updateStatus(
+      userId,
+      userInfo.displayName,
+      userInfo.status,
+      userInfo.statusDescription,
+      polled
+    )
+
+    // プロフィールを更新（変化していれば通知）
+    const profileChanged = await this.updateProfile(
+      userId,
+      getUserInfoProfile(userInfo),
+      polled
+    )
+
+    return locationChanged || statusChanged || profileChanged
+  }
+
+  /**
+   * 照合のポーリングで取得したユーザー情報を反映する
+   *
+   * 状態が保存されていないユーザーは初期状態として保存するのみで通知は行わない。
+   * 取得中に WebSocket イベントで状態が更新された場合は、
+   * 取得した情報の方が古い可能性があるため反映しない。
+   *
+   * @param userInfo ユーザー情報
+   * @param fetchedAt 取得を開始した日時（エポックミリ秒）
+   * @returns 状態がずれていた場合は true
+   */
+  private async reconcileUser(
+    userInfo: UserInfo,
+    fetchedAt: number
+  ): Promise<boolean> {
+    if (!this.watchList.isWatched(userInfo.id)) {
+      return false
+    }
+
+    const stored = this.locationStore.getLocation(userInfo.id)
+    if (!stored) {
+      this.recordInitialState(userInfo)
+      return false
+    }
+
+    if (Date.parse(stored.updatedAt) >= fetchedAt) {
+      return false
+    }
+
+    return this.applyUserInfo(userInfo, 'poll')
+  }
+
+  /**
+   * 監視対象に追加されたユーザーの初期状態を取得する
+   *
+   * 通知は送信せず、現在の状態を保存するのみとする。
+   * WebSocket が未接続の場合は次回接続時の初期状態の取得に任せる。
+   *
+   * @param userId ユーザー ID
+   * @returns 初期状態を取得できた場合は true
+   */
+  private async seedUser(userId: string): Promise<boolean> {
+    if (!this.vrchat) {
+      console.warn(
+        `[MAIN] VRChat client is not connected, ${userId} will be initialized on next connection`
+      )
+      return false
+    }
+
+    if ((await isFriend(this.vrchat, userId)) === false) {
+      console.warn(
+        `[MAIN] Warning: ${userId} is not a friend. You will not receive notifications until they become a friend.`
+      )
+    }
+
+    const userInfo = await getUser(this.vrchat, userId, this.worldInfo)
+    if (!userInfo) {
+      console.warn(`[MAIN] Failed to fetch user info for ${userId}`)
+      return false
+    }
+
+    this.recordInitialState(userInfo)
+    return true
+  }
+
+  /**
+   * 監視対象に追加されたユーザーの現在の状態を保存する（通知なし）
+   *
+   * @param userInfo ユーザー情報
+   */
+  private recordInitialState(userInfo: UserInfo): void {
+    const userId = userInfo.id
+    this.locationStore.setInitialLocation(
+      userId,
+      userInfo.displayName,
+      userInfo.location,
+      'seed'
+    )
+    if (userInfo.status !== 'offline') {
+      this.locationStore.updateStatus(
+        userId,
+        userInfo.status,
+        userInfo.statusDescription
+      )
+    }
+    this.profileStore.update(userId, getUserInfoProfile(userInfo))
+    const parsedLocation = parseLocation(userInfo.location)
+    this.sessionTracker.recordLocation(userId, parsedLocation)
+
+    console.log(
+      `[MAIN] Added target user: ${userInfo.displayName} (${userId}) - ${userInfo.status} @ ${formatLocation(parsedLocation)}`
+    )
   }
 
   /**
@@ -328,11 +1113,19 @@ class WatchVRChatUser {
 
     this.vrchat = vrchat
 
+    // degraded 状態のポーリングを終了
+    this.reconciler.setDegraded(false)
+
+    // すべてのフレンドを監視する場合はフレンド一覧をまとめて取得
+    const friends = this.config.watchAllFriends
+      ? await this.loadFriends()
+      : null
+
     // ターゲットユーザーがフレンドかどうかを検証
-    await this.validateTargetUsers()
+    await this.validateTargetUsers(friends)
 
     // ターゲットユーザーの初期状態を取得
-    await this.fetchInitialUserStatuses()
+    await this.fetchInitialUserStatuses(friends)
 
     // WebSocket イベントを登録
     this.setupWebSocketEvents()
@@ -340,11 +1133,34 @@ class WatchVRChatUser {
     console.log('[MAIN] WebSocket initialized successfully')
   }
 
+  /**
+   * WebSocket を利用できず REST API のみ利用できる状態（degraded）になったときの処理
+   *
+   * WebSocket が再接続されるまで REST API で監視対象ユーザーをポーリングする。
+   * 再接続でクライアントが作り直された場合はクライアントのみ差し替える。
+   *
+   * @param vrchat VRChat クライアント
+   */
+  private handleDegraded(vrchat: VRChat): void {
+    this.vrchat = vrchat
+
+    if (this.reconciler.isDegraded()) {
+      return
+    }
+
+    console.warn(
+      '[MAIN] WebSocket is unavailable, polling target users via REST API until it recovers'
+    )
+    this.reconciler.setDegraded(true)
+  }
+
   /**
    * WebSocket 切断時の処理
+   *
+   * @param reason 切断の理由
    */
-  private handleDisconnected(): void {
-    console.warn('[MAIN] WebSocket disconnected')
+  private handleDisconnected(reason: string): void {
+    console.warn(`[MAIN] WebSocket disconnected (${reason})`)
     this.vrchat = null
   }
 
@@ -362,17 +1178,22 @@ class WatchVRChatUser {
     pipeline.removeAllListeners('friend-location')
     pipeline.removeAllListeners('friend-online')
     pipeline.removeAllListeners('friend-offline')
+    pipeline.removeAllListeners('friend-update')
+    pipeline.removeAllListeners('friend-add')
+    pipeline.removeAllListeners('friend-delete')
 
     // friend-location イベント
     pipeline.on('friend-location', (data: unknown) => {
       // 最後のイベント受信時刻を更新
       this.monitor.updateLastEventTime()
+      eventsReceivedCounter.inc({ event: 'friend-location' })
 
       if (!isFriendLocationEvent(data)) {
         console.error(
           '[MAIN] Invalid friend-location event data:',
           JSON.stringify(data)
         )
+        eventsDroppedCounter.inc({ event: 'friend-location' })
         return
       }
       this.handleFriendLocation(data).catch((error: unknown) => {
@@ -384,12 +1205,14 @@ class WatchVRChatUser {
     pipeline.on('friend-online', (data: unknown) => {
       // 最後のイベント受信時刻を更新
       this.monitor.updateLastEventTime()
+      eventsReceivedCounter.inc({ event: 'friend-online' })
 
       if (!isFriendOnlineEvent(data)) {
         console.error(
           '[MAIN] Invalid friend-online event data:',
           JSON.stringify(data)
         )
+        eventsDroppedCounter.inc({ event: 'friend-online' })
         return
       }
       this.handleFriendOnline(data).catch((error: unknown) => {
@@ -401,12 +1224,14 @@ class WatchVRChatUser {
     pipeline.on('friend-offline', (data: unknown) => {
       // 最後のイベント受信時刻を更新
       this.monitor.updateLastEventTime()
+      eventsReceivedCounter.inc({ event: 'friend-offline' })
 
       if (!isFriendOfflineEvent(data)) {
         console.error(
           '[MAIN] Invalid friend-offline event data:',
           JSON.stringify(data)
         )
+        eventsDroppedCounter.inc({ event: 'friend-offline' })
         return
       }
       this.handleFriendOffline(data).catch((error: unknown) => {
@@ -414,6 +1239,63 @@ class WatchVRChatUser {
       })
     })
 
+    // friend-update イベント
+    pipeline.on('friend-update', (data: unknown) => {
+      // 最後のイベント受信時刻を更新
+      this.monitor.updateLastEventTime()
+      eventsReceivedCounter.inc({ event: 'friend-update' })
+
+      if (!isFriendUpdateEvent(data)) {
+        console.error(
+          '[MAIN] Invalid friend-update event data:',
+          JSON.stringify(data)
+        )
+        eventsDroppedCounter.inc({ event: 'friend-update' })
+        return
+      }
+      this.handleFriendUpdate(data).catch((error: unknown) => {
+        console.error('[MAIN] Error handling friend-update event:', error)
+      })
+    })
+
+    // friend-add イベント
+    pipeline.on('friend-add', (data: unknown) => {
+      // 最後のイベント受信時刻を更新
+      this.monitor.updateLastEventTime()
+      eventsReceivedCounter.inc({ event: 'friend-add' })
+
+      if (!isFriendAddEvent(data)) {
+        console.error(
+          '[MAIN] Invalid friend-add event data:',
+          JSON.stringify(data)
+        )
+        eventsDroppedCounter.inc({ event: 'friend-add' })
+        return
+      }
+      this.handleFriendAdd(data).catch((error: unknown) => {
+        console.error('[MAIN] Error handling friend-add event:', error)
+      })
+    })
+
+    // friend-delete イベント
+    pipeline.on('friend-delete', (data: unknown) => {
+      // 最後のイベント受信時刻を更新
+      this.monitor.updateLastEventTime()
+      eventsReceivedCounter.inc({ event: 'friend-delete' })
+
+      if (!isFriendDeleteEvent(data)) {
+        console.error(
+          '[MAIN] Invalid friend-delete event data:',
+          JSON.stringify(data)
+        )
+        eventsDroppedCounter.inc({ event: 'friend-delete' })
+        return
+      }
+      this.handleFriendDelete(data).catch((error: unknown) => {
+        console.error('[MAIN] Error handling friend-delete event:', error)
+      })
+    })
+
     console.log('[MAIN] WebSocket event handlers registered.')
   }
 
@@ -430,19 +1312,23 @@ class WatchVRChatUser {
     const location = event.location
 
     // ターゲットユーザーでない場合はスキップ
-    if (!this.config.targetUserIds.includes(userId)) {
+    if (!this.watchList.isWatched(userId)) {
       return
     }
 
     console.log(
-      `[MAIN] Friend location event: ${displayName} (${userId}) -> ${location}`
+      `[MAIN] Friend location event: ${displayName} (${userId}) -> ${formatLocation(parseLocation(location))}`
     )
 
+    // プロフィールを更新
+    await this.updateProfile(userId, getEventProfile(event.user))
+
     // Location を更新
     const result = this.locationStore.updateLocation(
       userId,
       displayName,
-      location
+      location,
+      'websocket'
     )
 
     // Location が変更されていない場合はスキップ
@@ -450,14 +1336,29 @@ class WatchVRChatUser {
       return
     }
 
-    // Discord に通知
-    await this.notifier.notifyLocationChange({
-      displayName,
+    // セッションを更新して前の場所での滞在時間を取得
+    const transition = this.sessionTracker.recordLocation(
+      userId,
+      result.currentParsedLocation
+    )
+
+    // ワールド情報を解決（取得できない場合はイベントのワールド情報を使う）
+    const world = await this.worldInfo.resolve(
+      this.vrchat,
+      result.currentParsedLocation
+    )
+
+    // 通知を送信
+    await this.coalescer.notifyLocationChange({
+      displayName: this.getNotificationName(userId, displayName),
       userId,
-      previousLocation: result.previousLocation,
-      currentLocation: location,
-      worldName: event.world?.name,
-      thumbnailUrl: event.world?.thumbnailImageUrl,
+      previousLocation: result.previousParsedLocation,
+      currentLocation: result.currentParsedLocation,
+      worldName: world?.name ?? event.world?.name,
+      worldAuthorName: world?.authorName,
+      worldCapacity: world?.capacity,
+      thumbnailUrl: world?.thumbnailImageUrl ?? event.world?.thumbnailImageUrl,
+      previousStayMs: transition.previousStayMs ?? undefined,
     })
   }
 
@@ -471,18 +1372,36 @@ class WatchVRChatUser {
     const displayName = event.user.displayName
 
     // ターゲットユーザーでない場合はスキップ
-    if (!this.config.targetUserIds.includes(userId)) {
+    if (!this.watchList.isWatched(userId)) {
       return
     }
 
-    console.log(`[MAIN] Friend online event: ${displayName} (${userId})`)
+    const parsedLocation = parseLocation(event.location ?? null)
+    console.log(
+      `[MAIN] Friend online event: ${displayName} (${userId}) -> ${formatLocation(parsedLocation)}`
+    )
 
-    // 表示名を更新
-    this.locationStore.updateDisplayName(userId, displayName)
+    await this.updateProfile(userId, getEventProfile(event.user))
 
-    // Discord に通知
-    await this.notifier.notifyOnline({
-      displayName,
+    if (!event.location || parsedLocation.kind === 'offline') {
+      // Location が含まれていない場合は、表示名の更新とオンラインセッションの開始のみ行う
+      this.locationStore.updateDisplayName(userId, displayName)
+      this.sessionTracker.recordOnline(userId)
+    } else {
+      // Location を保存し、照合のポーリングでオンラインへの変化として再び検出されないようにする
+      const result = this.locationStore.updateLocation(
+        userId,
+        displayName,
+        event.location,
+        'websocket'
+      )
+      // オンラインセッションを開始して現在の Location での滞在を記録
+      this.sessionTracker.recordLocation(userId, result.currentParsedLocation)
+    }
+
+    // 通知を送信
+    await this.coalescer.notifyOnline({
+      displayName: this.getNotificationName(userId, displayName),
       userId,
     })
   }
@@ -496,7 +1415,7 @@ class WatchVRChatUser {
     const userId = event.userId
 
     // ターゲットユーザーでない場合はスキップ
-    if (!this.config.targetUserIds.includes(userId)) {
+    if (!this.watchList.isWatched(userId)) {
       return
     }
 
@@ -506,13 +1425,173 @@ class WatchVRChatUser {
     console.log(`[MAIN] Friend offline event: ${displayName} (${userId})`)
 
     // Location を null に更新
-    this.locationStore.updateLocation(userId, displayName, null)
+    const result = this.locationStore.updateLocation(
+      userId,
+      displayName,
+      null,
+      'websocket'
+    )
 
-    // Discord に通知
-    await this.notifier.notifyOffline({
+    // セッションを終了してオンライン時間を取得
+    const transition = this.sessionTracker.recordLocation(
+      userId,
+      result.currentParsedLocation
+    )
+
+    // 通知を送信
+    await this.coalescer.notifyOffline({
+      displayName: this.getNotificationName(userId, displayName),
+      userId,
+      onlineDurationMs: transition.onlineDurationMs ?? undefined,
+      previousLocation: result.previousParsedLocation,
+    })
+  }
+
+  /**
+   * friend-add イベントを処理する
+   * 追加されたフレンドが監視対象になった場合は初期状態を取得する
+   *
+   * @param event イベントデータ
+   */
+  private async handleFriendAdd(event: FriendAddEvent): Promise<void> {
+    const userId = event.userId
+    console.log(
+      `[MAIN] Friend add event: ${event.user.displayName} (${userId})`
+    )
+
+    this.watchList.addFriend(userId)
+
+    if (await this.updateFriendship(userId, true, event.user.displayName)) {
+      await this.seedUser(userId)
+    }
+  }
+
+  /**
+   * friend-delete イベントを処理する
+   *
+   * @param event イベントデータ
+   */
+  private async handleFriendDelete(event: FriendDeleteEvent): Promise<void> {
+    const userId = event.userId
+    const displayName = this.locationStore.getDisplayName(userId) ?? userId
+    console.log(`[MAIN] Friend delete event: ${displayName} (${userId})`)
+
+    this.watchList.removeFriend(userId)
+    await this.updateFriendship(userId, false, displayName)
+  }
+
+  /**
+   * friend-update イベントを処理する
+   *
+   * @param event イベントデータ
+   */
+  private async handleFriendUpdate(event: FriendUpdateEvent): Promise<void> {
+    const userId = event.userId
+    const displayName = event.user.displayName
+
+    // ターゲットユーザーでない場合はスキップ
+    if (!this.watchList.isWatched(userId)) {
+      return
+    }
+
+    // 表示名とプロフィールを更新
+    this.locationStore.updateDisplayName(userId, displayName)
+    await this.updateProfile(userId, getEventProfile(event.user))
+
+    await this.updateStatus(
+      userId,
       displayName,
+      event.user.status,
+      event.user.statusDescription ?? ''
+    )
+  }
+
+  /**
+   * ユーザーのステータスを更新し、変化があれば通知を送信する
+   *
+   * オフライン中のステータスは本人が設定したものではないため記録しない。
+   * 前回のステータスが保存されていない場合は保存するのみで通知は行わない。
+   *
+   * @param userId ユーザー ID
+   * @param displayName ユーザーの表示名
+   * @param status 現在のステータス
+   * @param statusDescription 現在のステータスメッセージ
+   * @param polled ポーリングで取得した場合は true
+   * @returns 通知を送信した場合は true
+   */
+  private async updateStatus(
+    userId: string,
+    displayName: string,
+    status: string,
+    statusDescription: string,
+    polled = false
+  ): Promise<boolean> {
+    if (status === 'offline') {
+      return false
+    }
+
+    const result = this.locationStore.updateStatus(
+      userId,
+      status,
+      statusDescription
+    )
+    if (
+      !result.changed ||
+      result.previousStatus === null ||
+      result.previousStatusDescription === null
+    ) {
+      return false
+    }
+
+    console.log(
+      `[MAIN] Status changed: ${displayName} (${userId}) - ${result.previousStatus} -> ${status}`
+    )
+
+    await this.coalescer.notifyStatusChange({
+      displayName: this.getNotificationName(userId, displayName),
+      userId,
+      previousStatus: result.previousStatus,
+      status,
+      previousStatusDescription: result.previousStatusDescription,
+      statusDescription,
+      polled,
+    })
+    return true
+  }
+
+  /**
+   * ユーザーのプロフィールを更新し、変化があれば通知を送信する
+   *
+   * 前回の値が保存されていない項目は保存するのみで通知は行わない。
+   *
+   * @param userId ユーザー ID
+   * @param profile 現在のプロフィール
+   * @param polled ポーリングで取得した場合は true
+   * @returns 通知を送信した場合は true
+   */
+  private async updateProfile(
+    userId: string,
+    profile: UserProfile,
+    polled = false
+  ): Promise<boolean> {
+    const changes = this.profileStore.update(userId, profile)
+    if (changes.length === 0) {
+      return false
+    }
+
+    const displayName =
+      profile.displayName ?? this.locationStore.getDisplayName(userId) ?? userId
+    console.log(
+      `[MAIN] Profile changed: ${displayName} (${userId}) - ${changes.map((change) => change.field).join(', ')}`
+    )
+
+    await this.coalescer.notifyProfileChange({
+      displayName: this.getNotificationName(userId, displayName),
       userId,
+      changes,
+      polled,
     })
+    return true
   }
 }
 
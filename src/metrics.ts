@@ -0,0 +1,371 @@
+/**
+ * メトリクスのラベル
+ */
+type Labels = Record<string, string>
+
+/**
+ * メトリクスの種類
+ */
+type MetricType = 'counter' | 'gauge' | 'histogram'
+
+/** VRChat API 呼び出し時間のヒストグラムのバケット（秒） */
+const API_DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+/**
+ * ラベル値を Prometheus のテキスト形式用にエスケープする
+ *
+ * @param value ラベル値
+ * @returns エスケープしたラベル値
+ */
+function escapeLabelValue(value: string): string {
+  return value
+    .replaceAll('\\', String.raw`\\`)
+    .replaceAll('"', String.raw`\"`)
+    .replaceAll('\n', String.raw`\n`)
+}
+
+/**
+ * ラベルを Prometheus のテキスト形式に変換する
+ *
+ * @param labels ラベル
+ * @returns `{name="value",...}` 形式の文字列（ラベルがない場合は空文字列）
+ */
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels)
+  if (entries.length === 0) {
+    return ''
+  }
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`
+}
+
+/**
+ * ラベルからメトリクスの系列を識別するキーを生成する
+ *
+ * @param labels ラベル
+ * @returns 系列のキー
+ */
+function toSeriesKey(labels: Labels): string {
+  return JSON.stringify(
+    Object.entries(labels).toSorted(([a], [b]) => a.localeCompare(b))
+  )
+}
+
+/**
+ * メトリクスの基底クラス
+ */
+abstract class Metric {
+  readonly name: string
+  readonly help: string
+  abstract readonly type: MetricType
+
+  /**
+   * メトリクスを初期化する
+   *
+   * @param name メトリクス名
+   * @param help メトリクスの説明
+   */
+  constructor(name: string, help: string) {
+    this.name = name
+    this.help = help
+  }
+
+  /**
+   * サンプル行を出力する
+   *
+   * @returns Prometheus のテキスト形式のサンプル行
+   */
+  abstract renderSamples(): string[]
+
+  /**
+   * HELP / TYPE 行を含めて出力する
+   *
+   * @returns Prometheus のテキスト形式の文字列
+   */
+  render(): string {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.renderSamples(),
+    ].join('\n')
+  }
+}
+
+/**
+ * 単調増加するカウンター
+ */
+class Counter extends Metric {
+  readonly type = 'counter'
+  private series = new Map<string, { labels: Labels; value: number }>()
+
+  /**
+   * カウンターを増加させる
+   *
+   * @param labels ラベル
+   * @param value 増加量
+   */
+  inc(labels: Labels = {}, value = 1): void {
+    const key = toSeriesKey(labels)
+    const current = this.series.get(key)
+    if (current) {
+      current.value += value
+    } else {
+      this.series.set(key, { labels, value })
+    }
+  }
+
+  renderSamples(): string[] {
+    return [...this.series.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+    )
+  }
+}
+
+/**
+ * 任意の値を設定できるゲージ
+ */
+class Gauge extends Metric {
+  readonly type = 'gauge'
+  private series = new Map<string, { labels: Labels; value: number }>()
+
+  /**
+   * 値を設定する
+   *
+   * @param labels ラベル
+   * @param value 値
+   */
+  set(labels: Labels, value: number): void {
+    this.series.set(toSeriesKey(labels), { labels, value })
+  }
+
+  renderSamples(): string[] {
+    return [...this.series.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+    )
+  }
+}
+
+/**
+ * 値の分布を記録するヒストグラム
+ */
+class Histogram extends Metric {
+  readonly type = 'histogram'
+  private buckets: number[]
+  private series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >()
+
+  /**
+   * ヒストグラムを初期化する
+   *
+   * @param name メトリクス名
+   * @param help メトリクスの説明
+   * @param buckets バケットの上限値（昇順）
+   */
+  constructor(name: string, help: string, buckets: number[]) {
+    super(name, help)
+    this.buckets = buckets
+  }
+
+  /**
+   * 値を記録する
+   *
+   * @param labels ラベル
+   * @param value 値
+   */
+  observe(labels: Labels, value: number): void {
+    const key = toSeriesKey(labels)
+    let current = this.series.get(key)
+    if (!current) {
+      current = {
+        labels,
+        counts: this.buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      }
+      this.series.set(key, current)
+    }
+
+    for (const [index, bucket] of this.buckets.entries()) {
+      if (value <= bucket) {
+        current.counts[index]++
+      }
+    }
+    current.sum += value
+    current.count++
+  }
+
+  /**
+   * 経過時間の計測を開始する
+   *
+   * @param labels ラベル
+   * @returns 計測を終了して経過秒数を記録する関数
+   */
+  startTimer(labels: Labels): () => void {
+    const startedAt = performance.now()
+    return () => {
+      this.observe(labels, (performance.now() - startedAt) / 1000)
+    }
+  }
+
+  renderSamples(): string[] {
+    const lines: string[] = []
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      for (const [index, bucket] of this.buckets.entries()) {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bucket) })} ${counts[index]}`
+        )
+      }
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+        `${this.name}_sum${formatLabels(labels)} ${sum}`,
+        `${this.name}_count${formatLabels(labels)} ${count}`
+      )
+    }
+    return lines
+  }
+}
+
+/** 登録済みのメトリクス */
+const registry: Metric[] = []
+
+/**
+ * メトリクスを登録する
+ *
+ * @param metric メトリクス
+ * @returns 登録したメトリクス
+ */
+function register<T extends Metric>(metric: T): T {
+  registry.push(metric)
+  return metric
+}
+
+/** WebSocket の接続状態（現在の状態のみ 1） */
+export const connectionStateGauge = register(
+  new Gauge(
+    'watch_vrchat_user_connection_state',
+    'Current WebSocket connection state (1 for the current state)'
+  )
+)
+
+/** 連続した再接続の試行回数 */
+export const reconnectAttemptsGauge = register(
+  new Gauge(
+    'watch_vrchat_user_reconnect_attempts',
+    'Number of consecutive WebSocket reconnect attempts'
+  )
+)
+
+/** 最後のイベント受信からの経過秒数 */
+export const secondsSinceLastEventGauge = register(
+  new Gauge(
+    'watch_vrchat_user_seconds_since_last_event',
+    'Seconds since the last pipeline event was received (-1 if none yet)'
+  )
+)
+
+/** 受信した pipeline イベントの数 */
+export const eventsReceivedCounter = register(
+  new Counter(
+    'watch_vrchat_user_events_received_total',
+    'Number of pipeline events received by type'
+  )
+)
+
+/** 型ガードで破棄した pipeline イベントの数 */
+export const eventsDroppedCounter = register(
+  new Counter(
+    'watch_vrchat_user_events_dropped_total',
+    'Number of pipeline events dropped because of invalid data'
+  )
+)
+
+/** 送信に成功した通知の数 */
+export const notificationsSentCounter = register(
+  new Counter(
+    'watch_vrchat_user_notifications_sent_total',
+    'Number of notifications sent by type and notifier'
+  )
+)
+
+/** 保持期間内に送信できず破棄した通知の数 */
+export const notificationsFailedCounter = register(
+  new Counter(
+    'watch_vrchat_user_notifications_failed_total',
+    'Number of notifications discarded after failing until the outbox max age by type and notifier'
+  )
+)
+
+/** 通知の再送信の回数 */
+export const notificationRetriesCounter = register(
+  new Counter(
+    'watch_vrchat_user_notification_retries_total',
+    'Number of notification retries by type and notifier'
+  )
+)
+
+/** VRChat API の呼び出し時間 */
+export const vrchatApiDurationHistogram = register(
+  new Histogram(
+    'watch_vrchat_user_vrchat_api_request_duration_seconds',
+    'VRChat API request duration in seconds by operation',
+    API_DURATION_BUCKETS
+  )
+)
+
+/** VRChat API の呼び出しエラーの数 */
+export const vrchatApiErrorsCounter = register(
+  new Counter(
+    'watch_vrchat_user_vrchat_api_errors_total',
+    'Number of failed VRChat API requests by operation'
+  )
+)
+
+/** 死活確認により強制的に再接続した回数 */
+export const forcedReconnectsCounter = register(
+  new Counter(
+    'watch_vrchat_user_forced_reconnects_total',
+    'Number of WebSocket reconnects forced by liveness checks by reason'
+  )
+)
+
+/** 照合のポーリングで検知した状態のずれの数 */
+export const reconcileDriftsCounter = register(
+  new Counter(
+    'watch_vrchat_user_reconcile_drifts_total',
+    'Number of watched users whose state drifted from pipeline events, detected by reconciliation polling'
+  )
+)
+
+/** WebSocket 接続状態の遷移回数 */
+export const connectionTransitionsCounter = register(
+  new Counter(
+    'watch_vrchat_user_connection_transitions_total',
+    'Number of WebSocket connection state transitions by from and to state'
+  )
+)
+
+/** 送信した運用者向けアラートの数 */
+export const operatorAlertsCounter = register(
+  new Counter(
+    'watch_vrchat_user_operator_alerts_total',
+    'Number of operator alerts sent by kind'
+  )
+)
+
+/** VRChat への接続に失敗した回数 */
+export const connectionErrorsCounter = register(
+  new Counter(
+    'watch_vrchat_user_connection_errors_total',
+    'Number of failed VRChat connection attempts by error kind'
+  )
+)
+
+/**
+ * 登録済みのメトリクスを Prometheus のテキスト形式で出力する
+ *
+ * @returns Prometheus のテキスト形式の文字列
+ */
+export function renderMetrics(): string {
+  return `${registry.map((metric) => metric.render()).join('\n')}\n`
+}
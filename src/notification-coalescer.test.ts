@@ -0,0 +1,287 @@
+import { parseLocation } from './location-parser'
+import {
+  coalesceNotifications,
+  NotificationCoalescer,
+} from './notification-coalescer'
+import type {
+  LocationChangeParams,
+  Notifier,
+  UserNotificationPayload,
+} from './notifier'
+
+const USER_ID = 'usr_target'
+const WORLD_A = 'wrld_aaaaaaaa-0000-0000-0000-000000000000:11111~region(jp)'
+const WORLD_B = 'wrld_bbbbbbbb-0000-0000-0000-000000000000:22222~region(jp)'
+
+/**
+ * Location 変更通知を作成する
+ *
+ * @param previous 移動元の Location 文字列
+ * @param current 移動先の Location 文字列
+ * @param extra 追加のパラメータ
+ * @returns Location 変更通知
+ */
+function locationChange(
+  previous: string | null,
+  current: string,
+  extra: Partial<LocationChangeParams> = {}
+): UserNotificationPayload {
+  return {
+    type: 'location-change',
+    params: {
+      displayName: 'Target',
+      userId: USER_ID,
+      previousLocation: previous === null ? null : parseLocation(previous),
+      currentLocation: parseLocation(current),
+      ...extra,
+    },
+  }
+}
+
+/**
+ * ステータス変更通知を作成する
+ *
+ * @param previousStatus 変更前のステータス
+ * @param status 変更後のステータス
+ * @returns ステータス変更通知
+ */
+function statusChange(
+  previousStatus: string,
+  status: string
+): UserNotificationPayload {
+  return {
+    type: 'status-change',
+    params: {
+      displayName: 'Target',
+      userId: USER_ID,
+      previousStatus,
+      status,
+      previousStatusDescription: '',
+      statusDescription: '',
+    },
+  }
+}
+
+/**
+ * 表示名のプロフィール変更通知を作成する
+ *
+ * @param previous 変更前の表示名
+ * @param current 変更後の表示名
+ * @returns プロフィール変更通知
+ */
+function displayNameChange(
+  previous: string,
+  current: string
+): UserNotificationPayload {
+  return {
+    type: 'profile-change',
+    params: {
+      displayName: current,
+      userId: USER_ID,
+      changes: [{ field: 'displayName', previous, current }],
+    },
+  }
+}
+
+const online: UserNotificationPayload = {
+  type: 'online',
+  params: { displayName: 'Target', userId: USER_ID },
+}
+
+/**
+ * オフライン通知を作成する
+ *
+ * @param previousLocation オフラインになる前の Location 文字列
+ * @returns オフライン通知
+ */
+function offline(previousLocation: string): UserNotificationPayload {
+  return {
+    type: 'offline',
+    params: {
+      displayName: 'Target',
+      userId: USER_ID,
+      previousLocation: parseLocation(previousLocation),
+    },
+  }
+}
+
+/**
+ * 送信した通知を記録する Notifier を作成する
+ *
+ * @returns Notifier と送信した通知の配列
+ */
+function createRecorder(): {
+  notifier: Notifier
+  sent: UserNotificationPayload[]
+} {
+  const sent: UserNotificationPayload[] = []
+  const record =
+    <T extends UserNotificationPayload>(type: T['type']) =>
+    (params: T['params']): Promise<void> => {
+      sent.push({ type, params } as UserNotificationPayload)
+      return Promise.resolve()
+    }
+
+  return {
+    sent,
+    notifier: {
+      name: 'recorder',
+      notifyLocationChange: record('location-change'),
+      notifyOnline: record('online'),
+      notifyOffline: record('offline'),
+      notifyStatusChange: record('status-change'),
+      notifyProfileChange: record('profile-change'),
+      notifyFriendshipChange: record('friendship-change'),
+      notifyOperatorAlert: () => Promise.resolve(),
+    },
+  }
+}
+
+describe('coalesceNotifications', () => {
+  test('keeps a single notification as is', () => {
+    const payloads = [locationChange(WORLD_A, WORLD_B)]
+
+    expect(coalesceNotifications(payloads)).toStrictEqual(payloads)
+  })
+
+  test('cancels an offline followed by online', () => {
+    expect(coalesceNotifications([offline(WORLD_A), online])).toStrictEqual([])
+  })
+
+  test('cancels an online followed by offline', () => {
+    expect(coalesceNotifications([online, offline(WORLD_A)])).toStrictEqual([])
+  })
+
+  test('uses the location before a cancelled flap as the previous location', () => {
+    const result = coalesceNotifications([
+      offline(WORLD_A),
+      online,
+      locationChange(null, WORLD_B),
+    ])
+
+    expect(result).toHaveLength(1)
+    expect(result[0]).toMatchObject({
+      type: 'location-change',
+      params: {
+        previousLocation: { raw: WORLD_A },
+        currentLocation: { raw: WORLD_B },
+      },
+    })
+  })
+
+  test('drops a location change back to the location before a cancelled flap', () => {
+    expect(
+      coalesceNotifications([
+        offline(WORLD_A),
+        online,
+        locationChange(null, WORLD_A),
+      ])
+    ).toStrictEqual([])
+  })
+
+  test('merges A -> traveling -> B into A -> B', () => {
+    const result = coalesceNotifications([
+      locationChange(WORLD_A, 'traveling', { previousStayMs: 60_000 }),
+      locationChange('traveling', WORLD_B, {
+        previousStayMs: 1000,
+        worldName: 'World B',
+      }),
+    ])
+
+    expect(result).toStrictEqual([
+      locationChange(WORLD_A, WORLD_B, {
+        previousStayMs: 60_000,
+        worldName: 'World B',
+      }),
+    ])
+  })
+
+  test('drops location changes that return to the original location', () => {
+    expect(
+      coalesceNotifications([
+        locationChange(WORLD_A, 'traveling'),
+        locationChange('traveling', WORLD_B),
+        locationChange(WORLD_B, WORLD_A),
+      ])
+    ).toStrictEqual([])
+  })
+
+  test('merges status changes and drops them when reverted', () => {
+    expect(
+      coalesceNotifications([
+        statusChange('active', 'busy'),
+        statusChange('busy', 'ask me'),
+      ])
+    ).toStrictEqual([statusChange('active', 'ask me')])
+
+    expect(
+      coalesceNotifications([
+        statusChange('active', 'busy'),
+        statusChange('busy', 'active'),
+      ])
+    ).toStrictEqual([])
+  })
+
+  test('merges profile changes and drops reverted fields', () => {
+    expect(
+      coalesceNotifications([
+        displayNameChange('Old', 'Middle'),
+        displayNameChange('Middle', 'New'),
+      ])
+    ).toStrictEqual([displayNameChange('Old', 'New')])
+
+    expect(
+      coalesceNotifications([
+        displayNameChange('Old', 'New'),
+        displayNameChange('New', 'Old'),
+      ])
+    ).toStrictEqual([])
+  })
+
+  test('sends status and profile changes after the other notifications without blocking flap cancellation', () => {
+    const result = coalesceNotifications([
+      offline(WORLD_A),
+      statusChange('active', 'busy'),
+      displayNameChange('Old', 'New'),
+      online,
+      locationChange(null, WORLD_B),
+    ])
+
+    expect(result.map((payload) => payload.type)).toStrictEqual([
+      'location-change',
+      'status-change',
+      'profile-change',
+    ])
+  })
+})
+
+describe('NotificationCoalescer', () => {
+  test('holds notifications and sends the coalesced result on flush', async () => {
+    const { notifier, sent } = createRecorder()
+    const coalescer = new NotificationCoalescer(notifier, 10_000)
+
+    await coalescer.notify(offline(WORLD_A))
+    await coalescer.notify(online)
+    await coalescer.notify(locationChange(null, WORLD_B))
+    expect(sent).toStrictEqual([])
+
+    await coalescer.flush()
+    expect(sent).toHaveLength(1)
+    expect(sent[0]).toMatchObject({
+      type: 'location-change',
+      params: {
+        previousLocation: { raw: WORLD_A },
+        currentLocation: { raw: WORLD_B },
+        occurredAt: expect.any(String),
+      },
+    })
+  })
+
+  test('sends notifications immediately when the window is 0', async () => {
+    const { notifier, sent } = createRecorder()
+    const coalescer = new NotificationCoalescer(notifier, 0)
+
+    await coalescer.notify(online)
+    expect(sent).toStrictEqual([online])
+  })
+})
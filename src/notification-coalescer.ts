@@ -0,0 +1,382 @@
+import { sendToNotifier } from './notification-dispatcher'
+import {
+  withOccurredAt,
+  type FriendshipChangeParams,
+  type LocationChangeParams,
+  type NotificationPayload,
+  type Notifier,
+  type OfflineParams,
+  type OnlineParams,
+  type OperatorAlertParams,
+  type ProfileChangeParams,
+  type StatusChangeParams,
+  type UserNotificationPayload,
+} from './notifier'
+import type { ParsedLocation } from './location-parser'
+
+/** 通知を保留する最大時間（最初の通知からの経過時間）の保留時間に対する倍率 */
+const MAX_HOLD_WINDOW_MULTIPLIER = 3
+
+/**
+ * ユーザーごとの保留中の通知
+ */
+interface PendingNotifications {
+  /** 保留中の通知（発生順） */
+  payloads: NotificationPayload[]
+  /** 最初の通知を保留した日時（エポックミリ秒） */
+  firstAt: number
+  /** 送信タイマー */
+  timer: NodeJS.Timeout
+}
+
+/**
+ * 2 つの Location が同じかどうかを判定する
+ *
+ * @param a Location の解析結果
+ * @param b Location の解析結果
+ * @returns 同じ場合は true
+ */
+function isSameLocation(
+  a: ParsedLocation | null,
+  b: ParsedLocation | null
+): boolean {
+  return (a?.raw ?? null) === (b?.raw ?? null)
+}
+
+/**
+ * 連続する Location 変更通知を 1 つにまとめる
+ * 移動元と前の場所での滞在時間は最初の通知、移動先とワールド情報は最後の通知を使う
+ *
+ * @param first 最初の通知
+ * @param last 最後の通知
+ * @returns まとめた通知
+ */
+function mergeLocationChanges(
+  first: LocationChangeParams,
+  last: LocationChangeParams
+): LocationChangeParams {
+  return {
+    ...last,
+    previousLocation: first.previousLocation,
+    previousStayMs: first.previousStayMs,
+  }
+}
+
+/**
+ * ステータス変更通知を 1 つにまとめる
+ * 変更前は最初の通知、変更後は最後の通知を使う
+ *
+ * @param first 最初の通知
+ * @param last 最後の通知
+ * @returns まとめた通知
+ */
+function mergeStatusChanges(
+  first: StatusChangeParams,
+  last: StatusChangeParams
+): StatusChangeParams {
+  return {
+    ...last,
+    previousStatus: first.previousStatus,
+    previousStatusDescription: first.previousStatusDescription,
+  }
+}
+
+/**
+ * プロフィール変更通知を 1 つにまとめる
+ * 項目ごとに変更前は最初の通知、変更後は最後の通知の値を使い、元に戻った項目は除く
+ *
+ * @param first 最初の通知
+ * @param last 最後の通知
+ * @returns まとめた通知
+ */
+function mergeProfileChanges(
+  first: ProfileChangeParams,
+  last: ProfileChangeParams
+): ProfileChangeParams {
+  const changes = [...first.changes]
+  for (const change of last.changes) {
+    const index = changes.findIndex((item) => item.field === change.field)
+    if (index === -1) {
+      changes.push(change)
+    } else {
+      changes[index] = { ...change, previous: changes[index].previous }
+    }
+  }
+
+  return {
+    ...last,
+    changes: changes.filter((change) => change.previous !== change.current),
+  }
+}
+
+/**
+ * 保留中の通知から最終的に送信する通知を求める
+ *
+ * - オフライン → オンライン（またはその逆）の組は打ち消す
+ * - 打ち消した直後の Location 変更の移動元はオフラインになる前の Location とする
+ * - 連続する Location 変更（A → traveling → B など）は A → B にまとめる
+ * - 移動元と移動先が同じになった Location 変更は送信しない
+ * - ステータス変更・プロフィール変更はそれぞれ 1 つにまとめて最後に送信し、
+ *   元に戻った場合は送信しない
+ *
+ * @param payloads 保留中の通知（発生順）
+ * @returns 送信する通知（発生順）
+ */
+export function coalesceNotifications(
+  payloads: NotificationPayload[]
+): NotificationPayload[] {
+  const result: NotificationPayload[] = []
+  let statusChange: StatusChangeParams | null = null
+  let profileChange: ProfileChangeParams | null = null
+  // 打ち消したオフラインの直前の Location（打ち消していない場合は undefined）
+  let flapPreviousLocation: ParsedLocation | null | undefined
+
+  for (const payload of payloads) {
+    // ステータス変更・プロフィール変更はオンライン・オフラインの打ち消しを妨げないよう別にまとめる
+    if (payload.type === 'status-change') {
+      statusChange = statusChange
+        ? mergeStatusChanges(statusChange, payload.params)
+        : payload.params
+      continue
+    }
+
+    if (payload.type === 'profile-change') {
+      profileChange = profileChange
+        ? mergeProfileChanges(profileChange, payload.params)
+        : payload.params
+      continue
+    }
+
+    const last = result.at(-1)
+
+    if (last?.type === 'offline' && payload.type === 'online') {
+      result.pop()
+      flapPreviousLocation = last.params.previousLocation ?? null
+      continue
+    }
+
+    if (last?.type === 'online' && payload.type === 'offline') {
+      result.pop()
+      flapPreviousLocation = undefined
+      continue
+    }
+
+    if (payload.type !== 'location-change') {
+      result.push(payload)
+      flapPreviousLocation = undefined
+      continue
+    }
+
+    if (last?.type === 'location-change') {
+      result[result.length - 1] = {
+        type: 'location-change',
+        params: mergeLocationChanges(last.params, payload.params),
+      }
+      continue
+    }
+
+    result.push(
+      flapPreviousLocation === undefined || flapPreviousLocation === null
+        ? payload
+        : {
+            type: 'location-change',
+            params: {
+              ...payload.params,
+              previousLocation: flapPreviousLocation,
+              previousStayMs: undefined,
+            },
+          }
+    )
+    flapPreviousLocation = undefined
+  }
+
+  if (
+    statusChange &&
+    (statusChange.previousStatus !== statusChange.status ||
+      statusChange.previousStatusDescription !== statusChange.statusDescription)
+  ) {
+    result.push({ type: 'status-change', params: statusChange })
+  }
+
+  if (profileChange && profileChange.changes.length > 0) {
+    result.push({ type: 'profile-change', params: profileChange })
+  }
+
+  return result.filter(
+    (payload) =>
+      payload.type !== 'location-change' ||
+      !isSameLocation(
+        payload.params.previousLocation,
+        payload.params.currentLocation
+      )
+  )
+}
+
+/**
+ * 通知を短時間保留し、ユーザーごとに集約してから送信するクラス
+ *
+ * オフライン → オンラインのような短時間の状態の揺れを打ち消し、
+ * 連続する Location 変更を 1 つにまとめて最終的な変化のみを送信する。
+ * 保留時間は最後の通知から NOTIFICATION_COALESCE_WINDOW_SECONDS 秒
+ * （最初の通知からは最大でその 3 倍）とする。
+ */
+export class NotificationCoalescer implements Notifier {
+  readonly name = 'coalescer'
+  private target: Notifier
+  private windowMs: number
+  private pending = new Map<string, PendingNotifications>()
+
+  /**
+   * NotificationCoalescer を初期化する
+   *
+   * @param target 集約した通知の送信先
+   * @param windowMs 通知を保留する時間（ミリ秒、0 の場合は集約しない）
+   */
+  constructor(target: Notifier, windowMs: number) {
+    this.target = target
+    this.windowMs = windowMs
+  }
+
+  /**
+   * Location 変更通知を保留する
+   *
+   * @param params 通知パラメータ
+   */
+  async notifyLocationChange(params: LocationChangeParams): Promise<void> {
+    await this.notify({ type: 'location-change', params })
+  }
+
+  /**
+   * オンライン通知を保留する
+   *
+   * @param params 通知パラメータ
+   */
+  async notifyOnline(params: OnlineParams): Promise<void> {
+    await this.notify({ type: 'online', params })
+  }
+
+  /**
+   * オフライン通知を保留する
+   *
+   * @param params 通知パラメータ
+   */
+  async notifyOffline(params: OfflineParams): Promise<void> {
+    await this.notify({ type: 'offline', params })
+  }
+
+  /**
+   * ステータス変更通知を保留する
+   *
+   * @param params 通知パラメータ
+   */
+  async notifyStatusChange(params: StatusChangeParams): Promise<void> {
+    await this.notify({ type: 'status-change', params })
+  }
+
+  /**
+   * プロフィール変更通知を保留する
+   *
+   * @param params 通知パラメータ
+   */
+  async notifyProfileChange(params: ProfileChangeParams): Promise<void> {
+    await this.notify({ type: 'profile-change', params })
+  }
+
+  /**
+   * フレンド状態変更通知を保留する
+   *
+   * @param params 通知パラメータ
+   */
+  async notifyFriendshipChange(params: FriendshipChangeParams): Promise<void> {
+    await this.notify({ type: 'friendship-change', params })
+  }
+
+  /**
+   * 運用者向けアラートを保留せずに送信する
+   *
+   * @param params 通知パラメータ
+   */
+  async notifyOperatorAlert(params: OperatorAlertParams): Promise<void> {
+    await this.target.notifyOperatorAlert(params)
+  }
+
+  /**
+   * 通知を保留する（保留時間が 0 の場合はそのまま送信する）
+   *
+   * @param payload 通知の種類とパラメータ
+   */
+  async notify(payload: UserNotificationPayload): Promise<void> {
+    if (this.windowMs <= 0) {
+      await sendToNotifier(this.target, payload)
+      return
+    }
+
+    // 保留した時間だけ送信が遅れるため、出来事の日時を記録しておく
+    payload = withOccurredAt(payload)
+
+    const userId = payload.params.userId
+    const now = Date.now()
+    const existing = this.pending.get(userId)
+    if (existing) {
+      clearTimeout(existing.timer)
+    }
+
+    const payloads = existing ? [...existing.payloads, payload] : [payload]
+    const firstAt = existing?.firstAt ?? now
+    const delay = Math.max(
+      0,
+      Math.min(
+        this.windowMs,
+        firstAt + this.windowMs * MAX_HOLD_WINDOW_MULTIPLIER - now
+      )
+    )
+
+    this.pending.set(userId, {
+      payloads,
+      firstAt,
+      timer: setTimeout(() => {
+        this.flushUser(userId).catch((error: unknown) => {
+          console.error(
+            `[COALESCER] Failed to send notifications for ${userId}:`,
+            error
+          )
+        })
+      }, delay),
+    })
+  }
+
+  /**
+   * 保留中のすべての通知をすぐに送信する（終了時に使用する）
+   */
+  async flush(): Promise<void> {
+    const userIds = [...this.pending.keys()]
+    for (const userId of userIds) {
+      await this.flushUser(userId)
+    }
+  }
+
+  /**
+   * ユーザーの保留中の通知を集約して送信する
+   *
+   * @param userId ユーザー ID
+   */
+  private async flushUser(userId: string): Promise<void> {
+    const pending = this.pending.get(userId)
+    if (!pending) {
+      return
+    }
+    clearTimeout(pending.timer)
+    this.pending.delete(userId)
+
+    const payloads = coalesceNotifications(pending.payloads)
+    if (payloads.length < pending.payloads.length) {
+      console.log(
+        `[COALESCER] Coalesced ${pending.payloads.length} notification(s) into ${payloads.length} for ${userId}`
+      )
+    }
+
+    for (const payload of payloads) {
+      await sendToNotifier(this.target, payload)
+    }
+  }
+}
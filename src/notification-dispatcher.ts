@@ -0,0 +1,296 @@
+import type { Config, NotifierConfig } from './config'
+import { DiscordNotifier } from './discord-notifier'
+import {
+  NotificationOutbox,
+  type OutboxItem,
+  type OutboxStatus,
+} from './notification-outbox'
+import { NotificationRouter } from './notification-router'
+import {
+  MessageNotifier,
+  type FriendshipChangeParams,
+  type LocationChangeParams,
+  type NotificationPayload,
+  type Notifier,
+  type OfflineParams,
+  type OnlineParams,
+  type OperatorAlertParams,
+  type ProfileChangeParams,
+  type StatusChangeParams,
+  withOccurredAt,
+} from './notifier'
+import { PushNotifier } from './push-notifier'
+import { SlackNotifier } from './slack-notifier'
+import { WebhookNotifier } from './webhook-notifier'
+
+/**
+ * 設定から通知先を生成する
+ *
+ * @param config 通知先の設定
+ * @returns 通知先
+ */
+export function createNotifier(config: NotifierConfig): Notifier {
+  switch (config.type) {
+    case 'discord': {
+      return new DiscordNotifier(config)
+    }
+    case 'webhook': {
+      return new WebhookNotifier(config)
+    }
+    case 'slack': {
+      return new SlackNotifier(config)
+    }
+    case 'ntfy':
+    case 'gotify': {
+      return new PushNotifier({ ...config, type: config.type })
+    }
+  }
+}
+
+/**
+ * 通知を 1 つの通知先に送信する
+ *
+ * @param notifier 通知先
+ * @param payload 通知の種類とパラメータ
+ */
+export async function sendToNotifier(
+  notifier: Notifier,
+  payload: NotificationPayload
+): Promise<void> {
+  switch (payload.type) {
+    case 'location-change': {
+      await notifier.notifyLocationChange(payload.params)
+      break
+    }
+    case 'online': {
+      await notifier.notifyOnline(payload.params)
+      break
+    }
+    case 'offline': {
+      await notifier.notifyOffline(payload.params)
+      break
+    }
+    case 'status-change': {
+      await notifier.notifyStatusChange(payload.params)
+      break
+    }
+    case 'profile-change': {
+      await notifier.notifyProfileChange(payload.params)
+      break
+    }
+    case 'friendship-change': {
+      await notifier.notifyFriendshipChange(payload.params)
+      break
+    }
+    case 'operator-alert': {
+      await notifier.notifyOperatorAlert(payload.params)
+      break
+    }
+  }
+}
+
+/**
+ * ルーティングルールに従って通知先に通知を配信するクラス
+ *
+ * 通知は通知先ごとに NotificationOutbox へ追加し、順番どおりに送信する
+ */
+export class NotificationDispatcher implements Notifier {
+  readonly name = 'dispatcher'
+  private notifiers = new Map<string, Notifier>()
+  private router: NotificationRouter
+  private outbox: NotificationOutbox
+
+  /**
+   * NotificationDispatcher を初期化する
+   *
+   * @param config アプリケーション設定
+   */
+  constructor(config: Config) {
+    this.router = new NotificationRouter([], [], [])
+    this.outbox = new NotificationOutbox(
+      (items: OutboxItem[]) => this.deliver(items),
+      (destination: string, payloads: NotificationPayload[]) =>
+        this.getBatchSize(destination, payloads),
+      config.notificationOutboxMaxAgeMs
+    )
+    this.reload(config)
+  }
+
+  /**
+   * 通知の配信を開始する
+   * 前回の実行で送信できなかった通知もここで再送信する
+   */
+  start(): void {
+    this.outbox.start()
+  }
+
+  /**
+   * 通知の配信を停止する
+   */
+  stop(): void {
+    this.outbox.stop()
+  }
+
+  /**
+   * 送信待ち通知キューの状況を取得する
+   *
+   * @returns 送信待ち通知キューの状況
+   */
+  getOutboxStatus(): OutboxStatus {
+    return this.outbox.getStatus()
+  }
+
+  /**
+   * 設定から通知先とルーティングルールを作り直す
+   * 設定ファイルの再読み込み時にも使用する
+   *
+   * @param config アプリケーション設定
+   */
+  reload(config: Config): void {
+    const notifiers = new Map<string, Notifier>()
+    for (const notifierConfig of config.notifiers) {
+      notifiers.set(notifierConfig.name, createNotifier(notifierConfig))
+    }
+
+    this.notifiers = notifiers
+    this.router = new NotificationRouter(
+      config.routingRules,
+      config.notifiers
+        .filter((notifierConfig) => notifierConfig.isDefault)
+        .map((notifierConfig) => notifierConfig.name),
+      config.adminNotifiers
+    )
+
+    console.log(
+      `[DISPATCHER] Enabled notifier(s): ${[...this.notifiers.keys()].join(', ')} (${config.routingRules.length} routing rule(s), admin: ${config.adminNotifiers.join(', ') || 'none'})`
+    )
+  }
+
+  /**
+   * Location 変更通知を配信する
+   *
+   * @param params 通知パラメータ
+   */
+  async notifyLocationChange(params: LocationChangeParams): Promise<void> {
+    await this.notify({ type: 'location-change', params })
+  }
+
+  /**
+   * オンライン通知を配信する
+   *
+   * @param params 通知パラメータ
+   */
+  async notifyOnline(params: OnlineParams): Promise<void> {
+    await this.notify({ type: 'online', params })
+  }
+
+  /**
+   * オフライン通知を配信する
+   *
+   * @param params 通知パラメータ
+   */
+  async notifyOffline(params: OfflineParams): Promise<void> {
+    await this.notify({ type: 'offline', params })
+  }
+
+  /**
+   * ステータス変更通知を配信する
+   *
+   * @param params 通知パラメータ
+   */
+  async notifyStatusChange(params: StatusChangeParams): Promise<void> {
+    await this.notify({ type: 'status-change', params })
+  }
+
+  /**
+   * プロフィール変更通知を配信する
+   *
+   * @param params 通知パラメータ
+   */
+  async notifyProfileChange(params: ProfileChangeParams): Promise<void> {
+    await this.notify({ type: 'profile-change', params })
+  }
+
+  /**
+   * フレンド状態変更通知を配信する
+   *
+   * @param params 通知パラメータ
+   */
+  async notifyFriendshipChange(params: FriendshipChangeParams): Promise<void> {
+    await this.notify({ type: 'friendship-change', params })
+  }
+
+  /**
+   * 運用者向けアラートを管理用の通知先に配信する
+   *
+   * @param params 通知パラメータ
+   */
+  async notifyOperatorAlert(params: OperatorAlertParams): Promise<void> {
+    await this.notify({ type: 'operator-alert', params })
+  }
+
+  /**
+   * ルーティングルールで決定した通知先ごとに送信待ち通知キューへ追加する
+   * 送信は通知先ごとに非同期で行われ、一部の通知先の失敗は他の通知先に影響しない
+   *
+   * @param payload 通知の種類とパラメータ
+   */
+  notify(payload: NotificationPayload): Promise<void> {
+    // 再送信で送信が遅れても出来事の日時を表示できるよう、キューへの追加時に記録する
+    const stamped = withOccurredAt(payload)
+    for (const destination of this.router.route(stamped)) {
+      this.outbox.enqueue(destination, stamped)
+    }
+
+    return Promise.resolve()
+  }
+
+  /**
+   * 通知先が先頭から 1 回でまとめて送信できる通知の数を取得する
+   *
+   * @param destination 通知先名
+   * @param payloads 送信待ちの通知の種類とパラメータ（送信する順）
+   * @returns まとめて送信できる通知の数
+   */
+  private getBatchSize(
+    destination: string,
+    payloads: NotificationPayload[]
+  ): number {
+    const notifier = this.notifiers.get(destination)
+    return notifier instanceof MessageNotifier
+      ? notifier.getBatchSize(payloads)
+      : 1
+  }
+
+  /**
+   * 同じ通知先の送信待ちの通知をまとめて 1 回送信する
+   *
+   * @param items 送信待ちの通知
+   * @throws 送信に失敗した場合
+   */
+  private async deliver(items: OutboxItem[]): Promise<void> {
+    const destination = items[0].destination
+    const notifier = this.notifiers.get(destination)
+    if (!notifier) {
+      // 設定の再読み込みで通知先が削除された場合は破棄する
+      console.warn(
+        `[DISPATCHER] Notifier ${destination} no longer exists, discarding ${items.length} notification(s)`
+      )
+      return
+    }
+
+    // 出来事の日時を記録していない通知は、キューに追加した日時を出来事の日時とする
+    const payloads = items.map((item) =>
+      withOccurredAt(item.payload, new Date(item.createdAt))
+    )
+
+    if (notifier instanceof MessageNotifier) {
+      await notifier.notifyBatch(payloads)
+      return
+    }
+
+    for (const payload of payloads) {
+      await sendToNotifier(notifier, payload)
+    }
+  }
+}
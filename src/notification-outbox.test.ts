@@ -0,0 +1,184 @@
+import * as fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import type { NotificationPayload, OnlineParams } from './notifier'
+import type {
+  NotificationOutbox as NotificationOutboxClass,
+  OutboxItem,
+} from './notification-outbox'
+
+/** 送信待ち通知の最大保持期間（ミリ秒） */
+const MAX_AGE_MS = 60 * 60 * 1000
+
+/**
+ * オンライン通知を作成する
+ *
+ * @param displayName 表示名
+ * @returns オンライン通知
+ */
+function online(displayName: string): NotificationPayload {
+  return {
+    type: 'online',
+    params: { displayName, userId: `usr_${displayName}` },
+  }
+}
+
+/**
+ * 送信した通知の表示名を取り出す
+ *
+ * @param items 送信した通知
+ * @returns 表示名の配列
+ */
+function displayNames(items: OutboxItem[]): string[] {
+  return items.map((item) => (item.payload.params as OnlineParams).displayName)
+}
+
+let directory: string
+let NotificationOutbox: typeof NotificationOutboxClass
+
+beforeEach(async () => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'notification-outbox-'))
+  // 送信待ち通知ファイルのパスは読み込み時に決まるため、モジュールを読み込み直す
+  process.env.NOTIFICATION_OUTBOX_FILE_PATH = path.join(
+    directory,
+    'notification-outbox.json'
+  )
+  jest.resetModules()
+  ;({ NotificationOutbox } = await import('./notification-outbox'))
+  jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') })
+})
+
+afterEach(() => {
+  jest.useRealTimers()
+  Reflect.deleteProperty(process.env, 'NOTIFICATION_OUTBOX_FILE_PATH')
+  fs.rmSync(directory, { recursive: true, force: true })
+})
+
+describe('NotificationOutbox', () => {
+  test('delivers each destination in order, batching up to the batch size', async () => {
+    const batches: string[][] = []
+    const outbox = new NotificationOutbox(
+      (items) => {
+        batches.push(displayNames(items))
+        return Promise.resolve()
+      },
+      (destination) => (destination === 'batched' ? 2 : 1),
+      MAX_AGE_MS
+    )
+
+    for (const name of ['a', 'b', 'c']) {
+      outbox.enqueue('batched', online(name))
+      outbox.enqueue('single', online(name))
+    }
+    outbox.start()
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(batches).toStrictEqual([['a', 'b'], ['a'], ['c'], ['b'], ['c']])
+    expect(outbox.getStatus()).toMatchObject({ pending: 0, delivered: 6 })
+    outbox.stop()
+  })
+
+  test('retries a failed notification with exponential backoff before later ones', async () => {
+    const delivered: string[][] = []
+    let failures = 2
+    const outbox = new NotificationOutbox(
+      (items) => {
+        if (failures > 0) {
+          failures--
+          return Promise.reject(new Error('temporarily unavailable'))
+        }
+        delivered.push(displayNames(items))
+        return Promise.resolve()
+      },
+      () => 1,
+      MAX_AGE_MS
+    )
+    const consoleError = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => undefined)
+
+    try {
+      outbox.start()
+      outbox.enqueue('discord', online('first'))
+      outbox.enqueue('discord', online('second'))
+      await jest.advanceTimersByTimeAsync(0)
+
+      expect(outbox.getStatus().destinations.discord).toStrictEqual({
+        pending: 2,
+        attempts: 1,
+        nextAttemptAt: '2026-01-01T00:00:05.000Z',
+        lastError: 'temporarily unavailable',
+      })
+
+      // 2 回目の失敗では待機時間が倍になる
+      await jest.advanceTimersByTimeAsync(5000)
+      expect(outbox.getStatus().destinations.discord).toMatchObject({
+        attempts: 2,
+        nextAttemptAt: '2026-01-01T00:00:15.000Z',
+      })
+
+      await jest.advanceTimersByTimeAsync(9999)
+      expect(delivered).toStrictEqual([])
+
+      await jest.advanceTimersByTimeAsync(1)
+      expect(delivered).toStrictEqual([['first'], ['second']])
+      expect(outbox.getStatus().pending).toBe(0)
+    } finally {
+      outbox.stop()
+      consoleError.mockRestore()
+    }
+  })
+
+  test('discards notifications older than the maximum age', async () => {
+    const outbox = new NotificationOutbox(
+      () => Promise.reject(new Error('unavailable')),
+      () => 1,
+      MAX_AGE_MS
+    )
+    const consoleError = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => undefined)
+
+    try {
+      outbox.start()
+      outbox.enqueue('discord', online('first'))
+      await jest.advanceTimersByTimeAsync(MAX_AGE_MS + 30 * 60 * 1000)
+
+      expect(outbox.getStatus()).toMatchObject({
+        pending: 0,
+        delivered: 0,
+        expired: 1,
+      })
+    } finally {
+      outbox.stop()
+      consoleError.mockRestore()
+    }
+  })
+
+  test('replays notifications saved by a previous run', async () => {
+    const stopped = new NotificationOutbox(
+      () => Promise.resolve(),
+      () => 1,
+      MAX_AGE_MS
+    )
+    stopped.enqueue('discord', online('first'))
+    stopped.enqueue('discord', online('second'))
+
+    const delivered: string[][] = []
+    const outbox = new NotificationOutbox(
+      (items) => {
+        delivered.push(displayNames(items))
+        return Promise.resolve()
+      },
+      () => 10,
+      MAX_AGE_MS
+    )
+    expect(outbox.getStatus().pending).toBe(2)
+
+    outbox.start()
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(delivered).toStrictEqual([['first', 'second']])
+    outbox.stop()
+  })
+})
@@ -0,0 +1,450 @@
+import { randomUUID } from 'node:crypto'
+import * as fs from 'node:fs'
+import path from 'node:path'
+import {
+  notificationRetriesCounter,
+  notificationsFailedCounter,
+} from './metrics'
+import type { NotificationPayload } from './notifier'
+
+/** 送信待ち通知ファイルのパス（環境変数で上書き可能） */
+const OUTBOX_FILE_PATH =
+  process.env.NOTIFICATION_OUTBOX_FILE_PATH ?? 'data/notification-outbox.json'
+
+/** 再送信の初回待機時間（ミリ秒） */
+const INITIAL_BACKOFF_MS = 5000
+
+/** 再送信の最大待機時間（ミリ秒） */
+const MAX_BACKOFF_MS = 30 * 60 * 1000 // 30分
+
+/**
+ * 送信待ちの通知
+ */
+export interface OutboxItem {
+  /** 通知の ID */
+  id: string
+  /** 送信先の通知先名 */
+  destination: string
+  /** 通知の種類とパラメータ */
+  payload: NotificationPayload
+  /** キューに追加した日時（ISO 8601 形式） */
+  createdAt: string
+  /** 送信に失敗した回数 */
+  attempts: number
+  /** 次に送信を試みる日時（ISO 8601 形式） */
+  nextAttemptAt: string
+  /** 最後の送信エラー */
+  lastError: string | null
+}
+
+/**
+ * 通知先ごとの送信状況
+ */
+interface DestinationStatus {
+  /** 送信待ちの通知の数 */
+  pending: number
+  /** 先頭の通知の送信に失敗した回数 */
+  attempts: number
+  /** 先頭の通知を次に送信する日時（ISO 8601 形式） */
+  nextAttemptAt: string
+  /** 先頭の通知の最後の送信エラー */
+  lastError: string | null
+}
+
+/**
+ * 送信待ち通知キューの状況
+ */
+export interface OutboxStatus {
+  /** 送信待ちの通知の数 */
+  pending: number
+  /** 最も古い送信待ちの通知をキューに追加した日時（ISO 8601 形式） */
+  oldestPendingAt: string | null
+  /** 最後に通知を送信した日時（ISO 8601 形式） */
+  lastDeliveredAt: string | null
+  /** 起動後に送信した通知の数 */
+  delivered: number
+  /** 起動後に保持期間を過ぎて破棄した通知の数 */
+  expired: number
+  /** 通知先名をキーとした送信状況 */
+  destinations: Record<string, DestinationStatus>
+}
+
+/**
+ * 送信待ち通知キューのデータ構造
+ */
+interface OutboxData {
+  /** 送信待ちの通知（キューに追加した順） */
+  items: OutboxItem[]
+}
+
+/**
+ * 通知を送信する前にファイルへ保存し、通知先ごとに順番どおり配信するキュー
+ *
+ * 送信に失敗した通知は指数バックオフで再送信し、先頭の通知を送信できるまで
+ * 同じ通知先の後続の通知は待機する。起動時には送信できなかった通知を再送信する。
+ * 通知先がまとめて送信できる場合は、溜まっている通知を先頭から順にまとめて渡す。
+ * 送信中に終了した場合は再起動後に同じ通知が再送信されることがある。
+ */
+export class NotificationOutbox {
+  private data: OutboxData = { items: [] }
+  private deliver: (items: OutboxItem[]) => Promise<void>
+  private maxAgeMs: number
+  private getBatchSize: (
+    destination: string,
+    payloads: NotificationPayload[]
+  ) => number
+
+  private processing = new Set<string>()
+  private retryTimers = new Map<string, NodeJS.Timeout>()
+  private isStarted = false
+  private lastDeliveredAt: string | null = null
+  private delivered = 0
+  private expired = 0
+
+  /**
+   * NotificationOutbox を初期化する
+   * ファイルから送信待ちの通知を読み込む
+   *
+   * @param deliver 同じ通知先の通知をまとめて 1 回送信する関数（失敗した場合は例外を送出する）
+   * @param getBatchSize 通知先が先頭から 1 回でまとめて送信できる通知の数を返す関数
+   * @param maxAgeMs 送信待ち通知の最大保持期間（ミリ秒）
+   */
+  constructor(
+    deliver: (items: OutboxItem[]) => Promise<void>,
+    getBatchSize: (
+      destination: string,
+      payloads: NotificationPayload[]
+    ) => number,
+    maxAgeMs: number
+  ) {
+    this.deliver = deliver
+    this.getBatchSize = getBatchSize
+    this.maxAgeMs = maxAgeMs
+    this.load()
+  }
+
+  /**
+   * ファイルから送信待ちの通知を読み込む
+   */
+  private load(): void {
+    try {
+      if (!fs.existsSync(OUTBOX_FILE_PATH)) {
+        return
+      }
+
+      const content = fs.readFileSync(OUTBOX_FILE_PATH, 'utf8')
+      const parsed: unknown = JSON.parse(content)
+
+      if (!this.isValidOutboxData(parsed)) {
+        console.warn(
+          '[OUTBOX] Invalid data structure in file, starting with empty queue'
+        )
+        return
+      }
+
+      this.data = parsed
+    } catch (error) {
+      console.error('[OUTBOX] Failed to load data:', error)
+      this.data = { items: [] }
+    }
+  }
+
+  /**
+   * データ構造が OutboxData として有効かを検証する
+   *
+   * @param data 検証するデータ
+   * @returns 有効な場合は true
+   */
+  private isValidOutboxData(data: unknown): data is OutboxData {
+    if (typeof data !== 'object' || data === null) {
+      return false
+    }
+
+    const obj = data as Record<string, unknown>
+    if (!Array.isArray(obj.items)) {
+      return false
+    }
+
+    return obj.items.every((item: unknown) => {
+      if (typeof item !== 'object' || item === null) {
+        return false
+      }
+      const entry = item as Record<string, unknown>
+      const payload = entry.payload as Record<string, unknown> | null
+      return (
+        typeof entry.id === 'string' &&
+        typeof entry.destination === 'string' &&
+        typeof entry.createdAt === 'string' &&
+        typeof entry.attempts === 'number' &&
+        typeof entry.nextAttemptAt === 'string' &&
+        typeof payload === 'object' &&
+        payload !== null &&
+        typeof payload.type === 'string' &&
+        typeof payload.params === 'object'
+      )
+    })
+  }
+
+  /**
+   * 送信待ちの通知をファイルに保存する
+   * 通知を失わないよう、変更のたびに一時ファイル経由で置き換える
+   */
+  private saveNow(): void {
+    try {
+      const directory = path.dirname(OUTBOX_FILE_PATH)
+      if (!fs.existsSync(directory)) {
+        fs.mkdirSync(directory, { recursive: true })
+      }
+
+      const temporaryPath = `${OUTBOX_FILE_PATH}.tmp`
+      fs.writeFileSync(temporaryPath, JSON.stringify(this.data, null, 2))
+      fs.renameSync(temporaryPath, OUTBOX_FILE_PATH)
+    } catch (error) {
+      console.error('[OUTBOX] Failed to save data:', error)
+    }
+  }
+
+  /**
+   * 送信待ちの通知の配信を開始する
+   * 前回の実行で送信できなかった通知もここで再送信する
+   */
+  start(): void {
+    if (this.isStarted) {
+      return
+    }
+    this.isStarted = true
+
+    if (this.data.items.length > 0) {
+      console.log(
+        `[OUTBOX] Replaying ${this.data.items.length} undelivered notification(s)`
+      )
+    }
+
+    for (const destination of this.getDestinations()) {
+      this.processDestination(destination)
+    }
+  }
+
+  /**
+   * 配信を停止する
+   * 送信待ちの通知はファイルに残り、次回起動時に再送信される
+   */
+  stop(): void {
+    this.isStarted = false
+
+    for (const timer of this.retryTimers.values()) {
+      clearTimeout(timer)
+    }
+    this.retryTimers.clear()
+  }
+
+  /**
+   * 通知をキューに追加する
+   *
+   * @param destination 送信先の通知先名
+   * @param payload 通知の種類とパラメータ
+   */
+  enqueue(destination: string, payload: NotificationPayload): void {
+    const now = new Date().toISOString()
+    this.data.items.push({
+      id: randomUUID(),
+      destination,
+      payload,
+      createdAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+      lastError: null,
+    })
+    this.saveNow()
+
+    this.processDestination(destination)
+  }
+
+  /**
+   * 送信待ち通知キューの状況を取得する
+   *
+   * @returns 送信待ち通知キューの状況
+   */
+  getStatus(): OutboxStatus {
+    const destinations: Record<string, DestinationStatus> = {}
+    for (const item of this.data.items) {
+      const status = destinations[item.destination] as
+        | DestinationStatus
+        | undefined
+      if (status) {
+        status.pending++
+        continue
+      }
+      destinations[item.destination] = {
+        pending: 1,
+        attempts: item.attempts,
+        nextAttemptAt: item.nextAttemptAt,
+        lastError: item.lastError,
+      }
+    }
+
+    return {
+      pending: this.data.items.length,
+      oldestPendingAt: this.data.items[0]?.createdAt ?? null,
+      lastDeliveredAt: this.lastDeliveredAt,
+      delivered: this.delivered,
+      expired: this.expired,
+      destinations,
+    }
+  }
+
+  /**
+   * 送信待ちの通知がある通知先名を取得する
+   *
+   * @returns 通知先名の配列
+   */
+  private getDestinations(): string[] {
+    return [...new Set(this.data.items.map((item) => item.destination))]
+  }
+
+  /**
+   * 通知先の送信待ちの通知を順番に送信する（エラーはログにのみ出力する）
+   *
+   * @param destination 通知先名
+   */
+  private processDestination(destination: string): void {
+    if (!this.isStarted || this.processing.has(destination)) {
+      return
+    }
+
+    this.processing.add(destination)
+    this.drain(destination)
+      .catch((error: unknown) => {
+        console.error(`[OUTBOX] Error processing ${destination}:`, error)
+      })
+      .finally(() => {
+        this.processing.delete(destination)
+      })
+  }
+
+  /**
+   * 通知先の送信待ちの通知を、失敗するか空になるまで順番に送信する
+   *
+   * @param destination 通知先名
+   */
+  private async drain(destination: string): Promise<void> {
+    while (this.isStarted) {
+      const item = this.data.items.find(
+        (entry) => entry.destination === destination
+      )
+      if (!item) {
+        return
+      }
+
+      const now = Date.now()
+      const waitMs = new Date(item.nextAttemptAt).getTime() - now
+      if (waitMs > 0) {
+        this.scheduleRetry(destination, waitMs)
+        return
+      }
+
+      if (now - new Date(item.createdAt).getTime() > this.maxAgeMs) {
+        console.error(
+          `[OUTBOX] Discarding ${item.payload.type} notification for ${destination} after ${item.attempts} failed attempt(s): ${item.lastError ?? 'unknown error'}`
+        )
+        notificationsFailedCounter.inc({
+          type: item.payload.type,
+          notifier: destination,
+        })
+        this.expired++
+        this.remove(item)
+        continue
+      }
+
+      // 送信に失敗した場合はまとめて再送信するため、1 回で送信できる件数のみ取り出す
+      const pending = this.data.items.filter(
+        (entry) => entry.destination === destination
+      )
+      const batch = pending.slice(
+        0,
+        Math.max(
+          1,
+          this.getBatchSize(
+            destination,
+            pending.map((entry) => entry.payload)
+          )
+        )
+      )
+
+      try {
+        await this.deliver(batch)
+      } catch (error) {
+        const lastError = error instanceof Error ? error.message : String(error)
+        const backoffMs = this.calculateBackoff(item.attempts + 1)
+        const nextAttemptAt = new Date(Date.now() + backoffMs).toISOString()
+        for (const entry of batch) {
+          entry.attempts++
+          entry.lastError = lastError
+          entry.nextAttemptAt = nextAttemptAt
+          notificationRetriesCounter.inc({
+            type: entry.payload.type,
+            notifier: destination,
+          })
+        }
+        this.saveNow()
+
+        console.error(
+          `[OUTBOX] Failed to send ${batch.length} notification(s) via ${destination} (attempt ${item.attempts}), retrying in ${Math.round(backoffMs / 1000)} seconds:`,
+          lastError
+        )
+
+        this.scheduleRetry(destination, backoffMs)
+        return
+      }
+
+      this.lastDeliveredAt = new Date().toISOString()
+      this.delivered += batch.length
+      this.remove(...batch)
+    }
+  }
+
+  /**
+   * 送信した通知をキューから削除する
+   *
+   * @param items 削除する通知
+   */
+  private remove(...items: OutboxItem[]): void {
+    const ids = new Set(items.map((item) => item.id))
+    this.data.items = this.data.items.filter((entry) => !ids.has(entry.id))
+    this.saveNow()
+  }
+
+  /**
+   * 通知先の再送信をスケジュールする
+   *
+   * @param destination 通知先名
+   * @param delay 待機時間（ミリ秒）
+   */
+  private scheduleRetry(destination: string, delay: number): void {
+    const existing = this.retryTimers.get(destination)
+    if (existing) {
+      clearTimeout(existing)
+    }
+
+    this.retryTimers.set(
+      destination,
+      setTimeout(() => {
+        this.retryTimers.delete(destination)
+        this.processDestination(destination)
+      }, delay)
+    )
+  }
+
+  /**
+   * 再送信までの待機時間を計算する（指数バックオフ）
+   *
+   * @param attempts 送信に失敗した回数
+   * @returns 待機時間（ミリ秒）
+   */
+  private calculateBackoff(attempts: number): number {
+    return Math.min(
+      INITIAL_BACKOFF_MS * 2 ** Math.min(attempts - 1, 20),
+      MAX_BACKOFF_MS
+    )
+  }
+}
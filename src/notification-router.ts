@@ -0,0 +1,248 @@
+import type { InstanceAccessType } from './location-parser'
+import type {
+  NotificationPayload,
+  NotificationType,
+  UserNotificationPayload,
+} from './notifier'
+
+/**
+ * 通知のルーティングルール
+ *
+ * 指定した条件をすべて満たす通知に一致する。
+ * 条件を省略した項目はすべての値に一致する。
+ */
+export interface RoutingRule {
+  /** ルールの名前（ログ用） */
+  name?: string
+  /** 一致させるユーザー ID */
+  userIds?: string[]
+  /** 一致させる通知の種類 */
+  eventTypes?: NotificationType[]
+  /** 一致させるワールド ID（Location 変更通知の移動先） */
+  worldIds?: string[]
+  /** 一致させるインスタンスのアクセス種別（Location 変更通知の移動先） */
+  accessTypes?: InstanceAccessType[]
+  /** 送信先の通知先名 */
+  destinations?: string[]
+  /** 一致した通知を破棄するかどうか */
+  drop?: boolean
+}
+
+/** 通知の種類の一覧 */
+export const NOTIFICATION_TYPES: readonly string[] = [
+  'location-change',
+  'online',
+  'offline',
+  'status-change',
+  'profile-change',
+  'friendship-change',
+]
+
+/** アクセス種別の一覧 */
+const ACCESS_TYPES: ReadonlySet<string> = new Set([
+  'public',
+  'friends+',
+  'friends',
+  'invite+',
+  'invite',
+  'group',
+])
+
+/**
+ * 値が文字列の配列かどうかを判定する
+ *
+ * @param value 判定する値
+ * @returns 文字列の配列の場合は true
+ */
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+/**
+ * ルーティングルールを検証する
+ *
+ * @param data 検証するデータ
+ * @param destinationNames 定義されている通知先名
+ * @param path エラーメッセージに含めるデータの位置
+ * @returns エラーメッセージの配列（問題がない場合は空配列）
+ */
+export function validateRoutingRule(
+  data: unknown,
+  destinationNames: string[],
+  path: string
+): string[] {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return [`${path}: must be an object`]
+  }
+
+  const errors: string[] = []
+  const obj = data as Record<string, unknown>
+
+  if (obj.name !== undefined && typeof obj.name !== 'string') {
+    errors.push(`${path}.name: must be a string`)
+  }
+
+  for (const key of ['userIds', 'worldIds', 'destinations'] as const) {
+    if (obj[key] !== undefined && !isStringArray(obj[key])) {
+      errors.push(`${path}.${key}: must be an array of strings`)
+    }
+  }
+
+  if (obj.eventTypes !== undefined) {
+    if (isStringArray(obj.eventTypes)) {
+      for (const [index, type] of obj.eventTypes.entries()) {
+        if (!NOTIFICATION_TYPES.includes(type)) {
+          errors.push(`${path}.eventTypes[${index}]: unknown event type`)
+        }
+      }
+    } else {
+      errors.push(`${path}.eventTypes: must be an array of strings`)
+    }
+  }
+
+  if (obj.accessTypes !== undefined) {
+    if (isStringArray(obj.accessTypes)) {
+      for (const [index, type] of obj.accessTypes.entries()) {
+        if (!ACCESS_TYPES.has(type)) {
+          errors.push(`${path}.accessTypes[${index}]: unknown access type`)
+        }
+      }
+    } else {
+      errors.push(`${path}.accessTypes: must be an array of strings`)
+    }
+  }
+
+  if (obj.drop !== undefined && typeof obj.drop !== 'boolean') {
+    errors.push(`${path}.drop: must be a boolean`)
+  }
+
+  if (isStringArray(obj.destinations)) {
+    for (const [index, name] of obj.destinations.entries()) {
+      if (!destinationNames.includes(name)) {
+        errors.push(`${path}.destinations[${index}]: unknown destination`)
+      }
+    }
+  }
+
+  if (obj.drop !== true && !isStringArray(obj.destinations)) {
+    errors.push(`${path}: either destinations or drop must be specified`)
+  }
+
+  return errors
+}
+
+/**
+ * ルーティングルールに基づいて通知の送信先を決定するクラス
+ *
+ * ルールは定義順に評価し、最初に一致したルールの送信先を使用する。
+ * どのルールにも一致しない場合はデフォルトの送信先を使用する。
+ * 運用者向けアラートはルールを評価せず、管理用の送信先にのみ送信する。
+ * フレンド状態の変更は運用者の対応が必要なため、ルールで決まる送信先に加えて管理用の送信先にも送信する。
+ */
+export class NotificationRouter {
+  private rules: RoutingRule[]
+  private defaultDestinations: string[]
+  private adminDestinations: string[]
+
+  /**
+   * NotificationRouter を初期化する
+   *
+   * @param rules ルーティングルール
+   * @param defaultDestinations どのルールにも一致しない場合の送信先
+   * @param adminDestinations 運用者向けアラートの送信先
+   */
+  constructor(
+    rules: RoutingRule[],
+    defaultDestinations: string[],
+    adminDestinations: string[]
+  ) {
+    this.rules = rules
+    this.defaultDestinations = defaultDestinations
+    this.adminDestinations = adminDestinations
+  }
+
+  /**
+   * 通知の送信先を決定する
+   *
+   * @param payload 通知の種類とパラメータ
+   * @returns 送信先の通知先名の配列（破棄する場合は空配列）
+   */
+  route(payload: NotificationPayload): string[] {
+    if (payload.type === 'operator-alert') {
+      return this.adminDestinations
+    }
+
+    const destinations = this.routeByRules(payload)
+    if (payload.type === 'friendship-change') {
+      return [...new Set([...destinations, ...this.adminDestinations])]
+    }
+    return destinations
+  }
+
+  /**
+   * ルーティングルールに従って通知の送信先を決定する
+   *
+   * @param payload 通知の種類とパラメータ
+   * @returns 送信先の通知先名の配列（破棄する場合は空配列）
+   */
+  private routeByRules(payload: UserNotificationPayload): string[] {
+    for (const [index, rule] of this.rules.entries()) {
+      if (!this.matches(rule, payload)) {
+        continue
+      }
+
+      if (rule.drop) {
+        console.log(
+          `[ROUTER] Dropped ${payload.type} notification for ${payload.params.userId} by rule ${rule.name ?? `#${index}`}`
+        )
+        return []
+      }
+
+      return rule.destinations ?? []
+    }
+
+    return this.defaultDestinations
+  }
+
+  /**
+   * 通知がルールに一致するかを判定する
+   *
+   * @param rule ルーティングルール
+   * @param payload 通知の種類とパラメータ
+   * @returns 一致する場合は true
+   */
+  private matches(
+    rule: RoutingRule,
+    payload: UserNotificationPayload
+  ): boolean {
+    if (rule.userIds && !rule.userIds.includes(payload.params.userId)) {
+      return false
+    }
+
+    if (rule.eventTypes && !rule.eventTypes.includes(payload.type)) {
+      return false
+    }
+
+    if (rule.worldIds || rule.accessTypes) {
+      // ワールド・アクセス種別の条件は移動先がインスタンスの場合のみ一致する
+      if (payload.type !== 'location-change') {
+        return false
+      }
+
+      const location = payload.params.currentLocation
+      if (location.kind !== 'instance') {
+        return false
+      }
+
+      if (rule.worldIds && !rule.worldIds.includes(location.worldId)) {
+        return false
+      }
+
+      if (rule.accessTypes && !rule.accessTypes.includes(location.accessType)) {
+        return false
+      }
+    }
+
+    return true
+  }
+}
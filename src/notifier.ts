@@ -0,0 +1,903 @@
+import type { NotifierConfig } from './config'
+import { formatLocation, type ParsedLocation } from './location-parser'
+import { notificationsSentCounter } from './metrics'
+import type { ProfileChange, ProfileField } from './profile-store'
+import { formatDuration } from './session-tracker'
+
+/**
+ * 通知先へのリクエストのタイムアウト（ミリ秒）
+ * 応答が返らない通知先で送信待ちの通知が止まらないよう、タイムアウトは送信の失敗として再送信する
+ */
+export const NOTIFIER_REQUEST_TIMEOUT_MS = 30 * 1000
+
+/** 通知の種類 */
+export type NotificationType =
+  | 'location-change'
+  | 'online'
+  | 'offline'
+  | 'status-change'
+  | 'profile-change'
+  | 'friendship-change'
+  | 'operator-alert'
+
+/** Location 変更通知のパラメータ */
+export interface LocationChangeParams {
+  /** ユーザーの表示名 */
+  displayName: string
+  /** ユーザー ID */
+  userId: string
+  /** 前回の Location */
+  previousLocation: ParsedLocation | null
+  /** 現在の Location */
+  currentLocation: ParsedLocation
+  /** ワールド名 */
+  worldName?: string
+  /** ワールド作者の表示名 */
+  worldAuthorName?: string
+  /** ワールドの定員 */
+  worldCapacity?: number
+  /** サムネイル URL */
+  thumbnailUrl?: string
+  /** 前の場所での滞在時間（ミリ秒） */
+  previousStayMs?: number
+  /** ポーリングで検知した場合は true（WebSocket イベントを取りこぼした可能性がある） */
+  polled?: boolean
+  /** 出来事の日時（ISO 8601 形式、未設定の場合は送信日時） */
+  occurredAt?: string
+}
+
+/** オンライン通知のパラメータ */
+export interface OnlineParams {
+  /** ユーザーの表示名 */
+  displayName: string
+  /** ユーザー ID */
+  userId: string
+  /** ポーリングで検知した場合は true（WebSocket イベントを取りこぼした可能性がある） */
+  polled?: boolean
+  /** 出来事の日時（ISO 8601 形式、未設定の場合は送信日時） */
+  occurredAt?: string
+}
+
+/** オフライン通知のパラメータ */
+export interface OfflineParams {
+  /** ユーザーの表示名 */
+  displayName: string
+  /** ユーザー ID */
+  userId: string
+  /** オンラインだった時間（ミリ秒） */
+  onlineDurationMs?: number
+  /** オフラインになる前の Location（通知の集約に使用し、通知には表示しない） */
+  previousLocation?: ParsedLocation | null
+  /** ポーリングで検知した場合は true（WebSocket イベントを取りこぼした可能性がある） */
+  polled?: boolean
+  /** 出来事の日時（ISO 8601 形式、未設定の場合は送信日時） */
+  occurredAt?: string
+}
+
+/** ステータス変更通知のパラメータ */
+export interface StatusChangeParams {
+  /** ユーザーの表示名 */
+  displayName: string
+  /** ユーザー ID */
+  userId: string
+  /** 前回のステータス */
+  previousStatus: string
+  /** 現在のステータス */
+  status: string
+  /** 前回のステータスメッセージ */
+  previousStatusDescription: string
+  /** 現在のステータスメッセージ */
+  statusDescription: string
+  /** ポーリングで検知した場合は true（WebSocket イベントを取りこぼした可能性がある） */
+  polled?: boolean
+  /** 出来事の日時（ISO 8601 形式、未設定の場合は送信日時） */
+  occurredAt?: string
+}
+
+/** プロフィール変更通知のパラメータ */
+export interface ProfileChangeParams {
+  /** ユーザーの表示名（変更後） */
+  displayName: string
+  /** ユーザー ID */
+  userId: string
+  /** 変更された項目 */
+  changes: ProfileChange[]
+  /** ポーリングで検知した場合は true（WebSocket イベントを取りこぼした可能性がある） */
+  polled?: boolean
+  /** 出来事の日時（ISO 8601 形式、未設定の場合は送信日時） */
+  occurredAt?: string
+}
+
+/** フレンド状態変更通知のパラメータ */
+export interface FriendshipChangeParams {
+  /** ユーザーの表示名 */
+  displayName: string
+  /** ユーザー ID */
+  userId: string
+  /** フレンドかどうか（変更後） */
+  isFriend: boolean
+  /** 出来事の日時（ISO 8601 形式、未設定の場合は送信日時） */
+  occurredAt?: string
+}
+
+/** 運用者向けアラートの種類 */
+export type OperatorAlertKind =
+  | 'session-expired'
+  | 'auth-failed'
+  | 'two-factor-required'
+  | 'disconnected'
+  | 'recovered'
+
+/** 運用者向けアラートのパラメータ */
+export interface OperatorAlertParams {
+  /** アラートの種類 */
+  kind: OperatorAlertKind
+  /** アラートの詳細 */
+  detail: string
+  /** 障害が始まった日時（ISO 8601 形式） */
+  since: string
+  /** 出来事の日時（ISO 8601 形式、未設定の場合は送信日時） */
+  occurredAt?: string
+}
+
+/**
+ * 監視対象ユーザーに関する通知の種類とパラメータの組
+ */
+export type UserNotificationPayload =
+  | { type: 'location-change'; params: LocationChangeParams }
+  | { type: 'online'; params: OnlineParams }
+  | { type: 'offline'; params: OfflineParams }
+  | { type: 'status-change'; params: StatusChangeParams }
+  | { type: 'profile-change'; params: ProfileChangeParams }
+  | { type: 'friendship-change'; params: FriendshipChangeParams }
+
+/**
+ * 通知の種類とパラメータの組
+ * 運用者向けアラートはルーティングルールの対象にせず、管理用の通知先にのみ送信する
+ */
+export type NotificationPayload =
+  | UserNotificationPayload
+  | { type: 'operator-alert'; params: OperatorAlertParams }
+
+/**
+ * 通知先のインターフェース
+ */
+export interface Notifier {
+  /** 通知先の名前 */
+  readonly name: string
+
+  /**
+   * Location 変更通知を送信する
+   *
+   * @param params 通知パラメータ
+   */
+  notifyLocationChange(params: LocationChangeParams): Promise<void>
+
+  /**
+   * オンライン通知を送信する
+   *
+   * @param params 通知パラメータ
+   */
+  notifyOnline(params: OnlineParams): Promise<void>
+
+  /**
+   * オフライン通知を送信する
+   *
+   * @param params 通知パラメータ
+   */
+  notifyOffline(params: OfflineParams): Promise<void>
+
+  /**
+   * ステータス変更通知を送信する
+   *
+   * @param params 通知パラメータ
+   */
+  notifyStatusChange(params: StatusChangeParams): Promise<void>
+
+  /**
+   * プロフィール変更通知を送信する
+   *
+   * @param params 通知パラメータ
+   */
+  notifyProfileChange(params: ProfileChangeParams): Promise<void>
+
+  /**
+   * フレンド状態変更通知を送信する
+   *
+   * @param params 通知パラメータ
+   */
+  notifyFriendshipChange(params: FriendshipChangeParams): Promise<void>
+
+  /**
+   * 運用者向けアラートを送信する
+   *
+   * @param params 通知パラメータ
+   */
+  notifyOperatorAlert(params: OperatorAlertParams): Promise<void>
+}
+
+/**
+ * 通知メッセージのフィールド
+ */
+export interface NotificationField {
+  /** フィールド名 */
+  name: string
+  /** 値 */
+  value: string
+  /** 横並びで表示するかどうか */
+  inline: boolean
+}
+
+/**
+ * 通知先に依存しない通知メッセージ
+ */
+export interface NotificationMessage {
+  /** タイトル */
+  title: string
+  /** 色 */
+  color: number
+  /** フィールド */
+  fields: NotificationField[]
+  /** サムネイル URL */
+  thumbnailUrl?: string
+  /** 通知日時（ISO 8601 形式） */
+  timestamp: string
+}
+
+/**
+ * 通知の出来事の日時を取得する
+ *
+ * @param params 通知パラメータ
+ * @returns 出来事の日時（記録されていない場合は現在日時、ISO 8601 形式）
+ */
+function getOccurredAt(params: { occurredAt?: string }): string {
+  return params.occurredAt ?? new Date().toISOString()
+}
+
+/**
+ * 出来事の日時が記録されていない通知に日時を記録する
+ * 保留や再送信で送信が遅れても、通知には出来事の日時を表示するために使う
+ *
+ * @param payload 通知の種類とパラメータ
+ * @param occurredAt 記録する日時
+ * @returns 出来事の日時を記録した通知の種類とパラメータ
+ */
+export function withOccurredAt<T extends NotificationPayload>(
+  payload: T,
+  occurredAt: Date = new Date()
+): T {
+  if (payload.params.occurredAt) {
+    return payload
+  }
+  return {
+    ...payload,
+    params: { ...payload.params, occurredAt: occurredAt.toISOString() },
+  }
+}
+
+/** 通知の色 */
+const COLORS = {
+  /** Location 変更（青） */
+  locationChange: 0x00_aa_ff,
+  /** オンライン（緑） */
+  online: 0x00_ff_00,
+  /** オフライン（グレー） */
+  offline: 0x80_80_80,
+  /** ステータス変更（オレンジ） */
+  statusChange: 0xff_aa_00,
+  /** プロフィール変更（紫） */
+  profileChange: 0xaa_55_ff,
+  /** フレンド追加（水色） */
+  friendAdded: 0x00_cc_cc,
+  /** フレンド解除（赤） */
+  friendRemoved: 0xff_00_00,
+  /** 運用者向けアラート（濃い赤） */
+  operatorAlert: 0xcc_00_00,
+  /** 運用者向けアラートの復旧（緑） */
+  operatorRecovered: 0x00_cc_66,
+} as const
+
+/** プロフィールの項目の表示名 */
+const PROFILE_FIELD_LABELS: Record<ProfileField, string> = {
+  displayName: '表示名',
+  bio: '自己紹介',
+  pronouns: '代名詞',
+  profilePicture: 'プロフィール画像',
+}
+
+/** 運用者向けアラートの種類ごとのタイトル */
+const OPERATOR_ALERT_TITLES: Record<OperatorAlertKind, string> = {
+  'session-expired': '\u{1F511} VRChat のセッション切れ',
+  'auth-failed': '\u{1F6AB} VRChat の認証失敗',
+  'two-factor-required': '\u{1F510} 2FA コードの入力が必要',
+  disconnected: '\u{26A0}\u{FE0F} VRChat との接続障害',
+  recovered: '\u{2705} VRChat との接続が復旧',
+}
+
+/** VRChat のステータスの表示名 */
+const STATUS_LABELS: Record<string, string> = {
+  'join me': '\u{1F535} Join Me',
+  active: '\u{1F7E2} Online',
+  'ask me': '\u{1F7E0} Ask Me',
+  busy: '\u{1F534} Do Not Disturb',
+  offline: '\u{26AB} Offline',
+}
+
+/**
+ * ステータスを表示用の文字列に変換する
+ *
+ * @param status VRChat のステータス
+ * @returns 表示用の文字列（不明なステータスはそのまま）
+ */
+function formatStatus(status: string): string {
+  return STATUS_LABELS[status] ?? status
+}
+
+/**
+ * Location 変更通知のメッセージを組み立てる
+ *
+ * @param params 通知パラメータ
+ * @returns 通知メッセージ
+ */
+function buildLocationChangeMessage(
+  params: LocationChangeParams
+): NotificationMessage {
+  const fields: NotificationField[] = [
+    {
+      name: 'ユーザー',
+      value: params.displayName,
+      inline: true,
+    },
+    {
+      name: '前の場所',
+      value: params.previousLocation
+        ? formatLocation(params.previousLocation)
+        : 'N/A',
+      inline: true,
+    },
+    {
+      name: '現在の場所',
+      value: formatLocation(params.currentLocation),
+      inline: true,
+    },
+  ]
+
+  // ワールド名がある場合は追加
+  if (params.worldName) {
+    fields.push({
+      name: 'ワールド',
+      value: params.worldName,
+      inline: false,
+    })
+  }
+
+  // ワールド作者がある場合は追加
+  if (params.worldAuthorName) {
+    fields.push({
+      name: '作者',
+      value: params.worldAuthorName,
+      inline: true,
+    })
+  }
+
+  // 定員がある場合は追加
+  if (params.worldCapacity !== undefined) {
+    fields.push({
+      name: '定員',
+      value: String(params.worldCapacity),
+      inline: true,
+    })
+  }
+
+  // 前の場所での滞在時間がある場合は追加
+  if (params.previousStayMs !== undefined) {
+    fields.push({
+      name: '前の場所での滞在時間',
+      value: formatDuration(params.previousStayMs),
+      inline: true,
+    })
+  }
+
+  return {
+    title: '\u{1F4CD} ロケーション変更',
+    color: COLORS.locationChange,
+    fields,
+    thumbnailUrl: params.thumbnailUrl,
+    timestamp: getOccurredAt(params),
+  }
+}
+
+/**
+ * オンライン通知のメッセージを組み立てる
+ *
+ * @param params 通知パラメータ
+ * @returns 通知メッセージ
+ */
+function buildOnlineMessage(params: OnlineParams): NotificationMessage {
+  return {
+    title: '\u{1F7E2} オンライン',
+    color: COLORS.online,
+    fields: [
+      {
+        name: 'ユーザー',
+        value: params.displayName,
+        inline: true,
+      },
+    ],
+    timestamp: getOccurredAt(params),
+  }
+}
+
+/**
+ * オフライン通知のメッセージを組み立てる
+ *
+ * @param params 通知パラメータ
+ * @returns 通知メッセージ
+ */
+function buildOfflineMessage(params: OfflineParams): NotificationMessage {
+  const fields: NotificationField[] = [
+    {
+      name: 'ユーザー',
+      value: params.displayName,
+      inline: true,
+    },
+  ]
+
+  // オンラインだった時間がある場合は追加
+  if (params.onlineDurationMs !== undefined) {
+    fields.push({
+      name: 'オンライン時間',
+      value: formatDuration(params.onlineDurationMs),
+      inline: true,
+    })
+  }
+
+  return {
+    title: '\u{26AB} オフライン',
+    color: COLORS.offline,
+    fields,
+    timestamp: getOccurredAt(params),
+  }
+}
+
+/**
+ * ステータス変更通知のメッセージを組み立てる
+ *
+ * @param params 通知パラメータ
+ * @returns 通知メッセージ
+ */
+function buildStatusChangeMessage(
+  params: StatusChangeParams
+): NotificationMessage {
+  const fields: NotificationField[] = [
+    {
+      name: 'ユーザー',
+      value: params.displayName,
+      inline: true,
+    },
+    {
+      name: '前のステータス',
+      value: formatStatus(params.previousStatus),
+      inline: true,
+    },
+    {
+      name: '現在のステータス',
+      value: formatStatus(params.status),
+      inline: true,
+    },
+  ]
+
+  // ステータスメッセージが変わった場合は変更前後を追加
+  if (params.previousStatusDescription !== params.statusDescription) {
+    fields.push(
+      {
+        name: '前のステータスメッセージ',
+        value: params.previousStatusDescription || 'N/A',
+        inline: false,
+      },
+      {
+        name: '現在のステータスメッセージ',
+        value: params.statusDescription || 'N/A',
+        inline: false,
+      }
+    )
+  } else if (params.statusDescription) {
+    fields.push({
+      name: 'ステータスメッセージ',
+      value: params.statusDescription,
+      inline: false,
+    })
+  }
+
+  return {
+    title: '\u{1F4AC} ステータス変更',
+    color: COLORS.statusChange,
+    fields,
+    timestamp: getOccurredAt(params),
+  }
+}
+
+/**
+ * プロフィール変更通知のメッセージを組み立てる
+ *
+ * @param params 通知パラメータ
+ * @returns 通知メッセージ
+ */
+function buildProfileChangeMessage(
+  params: ProfileChangeParams
+): NotificationMessage {
+  const fields: NotificationField[] = [
+    {
+      name: 'ユーザー',
+      value: params.displayName,
+      inline: false,
+    },
+  ]
+
+  for (const change of params.changes) {
+    const label = PROFILE_FIELD_LABELS[change.field]
+    // 自己紹介は長くなるため横並びにしない
+    const inline = change.field !== 'bio'
+    fields.push(
+      {
+        name: `前の${label}`,
+        value: change.previous || 'N/A',
+        inline,
+      },
+      {
+        name: `新しい${label}`,
+        value: change.current || 'N/A',
+        inline,
+      }
+    )
+  }
+
+  // プロフィール画像が変更された場合は新しい画像をサムネイルにする
+  const picture = params.changes.find(
+    (change) => change.field === 'profilePicture'
+  )
+
+  return {
+    title: '\u{270F}\u{FE0F} プロフィール変更',
+    color: COLORS.profileChange,
+    fields,
+    // 画像が削除された場合（空文字）はサムネイルを表示しない
+    thumbnailUrl: picture?.current === '' ? undefined : picture?.current,
+    timestamp: getOccurredAt(params),
+  }
+}
+
+/**
+ * フレンド状態変更通知のメッセージを組み立てる
+ *
+ * @param params 通知パラメータ
+ * @returns 通知メッセージ
+ */
+function buildFriendshipChangeMessage(
+  params: FriendshipChangeParams
+): NotificationMessage {
+  return {
+    title: params.isFriend
+      ? '\u{1F91D} フレンド追加'
+      : '\u{1F494} フレンド解除',
+    color: params.isFriend ? COLORS.friendAdded : COLORS.friendRemoved,
+    fields: [
+      {
+        name: 'ユーザー',
+        value: params.displayName,
+        inline: true,
+      },
+      {
+        name: 'ユーザー ID',
+        value: params.userId,
+        inline: true,
+      },
+      {
+        name: '監視',
+        value: params.isFriend
+          ? '通知を再開します'
+          : 'フレンドに戻るまで通知を受け取れません',
+        inline: false,
+      },
+    ],
+    timestamp: getOccurredAt(params),
+  }
+}
+
+/**
+ * 運用者向けアラートのメッセージを組み立てる
+ *
+ * @param params 通知パラメータ
+ * @returns 通知メッセージ
+ */
+function buildOperatorAlertMessage(
+  params: OperatorAlertParams
+): NotificationMessage {
+  const isRecovered = params.kind === 'recovered'
+  const fields: NotificationField[] = [
+    {
+      name: '内容',
+      value: params.detail,
+      inline: false,
+    },
+    {
+      name: '発生日時',
+      value: params.since,
+      inline: true,
+    },
+  ]
+
+  if (isRecovered) {
+    fields.push({
+      name: '障害時間',
+      value: formatDuration(
+        new Date(getOccurredAt(params)).getTime() -
+          new Date(params.since).getTime()
+      ),
+      inline: true,
+    })
+  }
+
+  return {
+    title: OPERATOR_ALERT_TITLES[params.kind],
+    color: isRecovered ? COLORS.operatorRecovered : COLORS.operatorAlert,
+    fields,
+    timestamp: getOccurredAt(params),
+  }
+}
+
+/**
+ * 通知の種類に応じた通知メッセージを組み立てる
+ *
+ * @param payload 通知の種類とパラメータ
+ * @returns 通知メッセージ
+ */
+function buildMessageByType(payload: NotificationPayload): NotificationMessage {
+  switch (payload.type) {
+    case 'location-change': {
+      return buildLocationChangeMessage(payload.params)
+    }
+    case 'online': {
+      return buildOnlineMessage(payload.params)
+    }
+    case 'offline': {
+      return buildOfflineMessage(payload.params)
+    }
+    case 'status-change': {
+      return buildStatusChangeMessage(payload.params)
+    }
+    case 'profile-change': {
+      return buildProfileChangeMessage(payload.params)
+    }
+    case 'friendship-change': {
+      return buildFriendshipChangeMessage(payload.params)
+    }
+    case 'operator-alert': {
+      return buildOperatorAlertMessage(payload.params)
+    }
+  }
+}
+
+/**
+ * 通知の種類とパラメータから通知メッセージを組み立てる
+ * ポーリングで検知した通知には検知方法を追加する
+ *
+ * @param payload 通知の種類とパラメータ
+ * @returns 通知メッセージ
+ */
+export function buildNotificationMessage(
+  payload: NotificationPayload
+): NotificationMessage {
+  const message = buildMessageByType(payload)
+
+  if ('polled' in payload.params && payload.params.polled) {
+    message.fields.push({
+      name: '検知方法',
+      value: 'ポーリング（WebSocket イベントを取りこぼした可能性があります）',
+      inline: false,
+    })
+  }
+
+  return message
+}
+
+/**
+ * 通知メッセージをプレーンテキストに変換する
+ *
+ * @param message 通知メッセージ
+ * @returns `フィールド名: 値` を改行で連結した文字列
+ */
+export function formatMessageAsText(message: NotificationMessage): string {
+  return message.fields
+    .map((field) => `${field.name}: ${field.value}`)
+    .join('\n')
+}
+
+/**
+ * 通知メッセージを組み立てて送信する通知先の基底クラス
+ *
+ * 派生クラスは 1 回分の送信処理のみを実装する。
+ * 送信に失敗した場合は例外を送出し、リトライは NotificationOutbox が行う。
+ */
+export abstract class MessageNotifier implements Notifier {
+  readonly name: string
+
+  /** 通知に付けるメンション */
+  protected readonly mention: string | undefined
+
+  /**
+   * MessageNotifier を初期化する
+   *
+   * @param config 通知先の設定
+   */
+  constructor(config: NotifierConfig) {
+    this.name = config.name
+    this.mention = config.mention
+  }
+
+  /**
+   * Location 変更通知を送信する
+   *
+   * @param params 通知パラメータ
+   * @throws 送信に失敗した場合
+   */
+  async notifyLocationChange(params: LocationChangeParams): Promise<void> {
+    await this.deliver({ type: 'location-change', params })
+  }
+
+  /**
+   * オンライン通知を送信する
+   *
+   * @param params 通知パラメータ
+   * @throws 送信に失敗した場合
+   */
+  async notifyOnline(params: OnlineParams): Promise<void> {
+    await this.deliver({ type: 'online', params })
+  }
+
+  /**
+   * オフライン通知を送信する
+   *
+   * @param params 通知パラメータ
+   * @throws 送信に失敗した場合
+   */
+  async notifyOffline(params: OfflineParams): Promise<void> {
+    await this.deliver({ type: 'offline', params })
+  }
+
+  /**
+   * ステータス変更通知を送信する
+   *
+   * @param params 通知パラメータ
+   * @throws 送信に失敗した場合
+   */
+  async notifyStatusChange(params: StatusChangeParams): Promise<void> {
+    await this.deliver({ type: 'status-change', params })
+  }
+
+  /**
+   * プロフィール変更通知を送信する
+   *
+   * @param params 通知パラメータ
+   * @throws 送信に失敗した場合
+   */
+  async notifyProfileChange(params: ProfileChangeParams): Promise<void> {
+    await this.deliver({ type: 'profile-change', params })
+  }
+
+  /**
+   * フレンド状態変更通知を送信する
+   *
+   * @param params 通知パラメータ
+   * @throws 送信に失敗した場合
+   */
+  async notifyFriendshipChange(params: FriendshipChangeParams): Promise<void> {
+    await this.deliver({ type: 'friendship-change', params })
+  }
+
+  /**
+   * 運用者向けアラートを送信する
+   *
+   * @param params 通知パラメータ
+   * @throws 送信に失敗した場合
+   */
+  async notifyOperatorAlert(params: OperatorAlertParams): Promise<void> {
+    await this.deliver({ type: 'operator-alert', params })
+  }
+
+  /**
+   * 先頭から 1 回でまとめて送信できる通知の数を取得する
+   * まとめて送信できる派生クラスはこのメソッドを上書きする
+   *
+   * @param payloads 送信待ちの通知の種類とパラメータ（送信する順）
+   * @returns まとめて送信できる通知の数（1 件以上）
+   */
+  getBatchSize(payloads: NotificationPayload[]): number {
+    return Math.min(payloads.length, 1)
+  }
+
+  /**
+   * 複数の通知をまとめて送信する
+   *
+   * @param payloads 通知の種類とパラメータ（getBatchSize で取得した件数まで）
+   * @throws 送信に失敗した場合
+   */
+  async notifyBatch(payloads: NotificationPayload[]): Promise<void> {
+    await this.sendBatch(
+      payloads.map((payload) => buildNotificationMessage(payload)),
+      payloads
+    )
+    for (const payload of payloads) {
+      notificationsSentCounter.inc({ type: payload.type, notifier: this.name })
+    }
+  }
+
+  /**
+   * 通知を 1 回送信する
+   *
+   * @param message 通知メッセージ
+   * @param payload 通知の種類とパラメータ
+   * @throws 送信に失敗した場合
+   */
+  protected abstract send(
+    message: NotificationMessage,
+    payload: NotificationPayload
+  ): Promise<void>
+
+  /**
+   * 複数の通知を送信する
+   * まとめて送信できる派生クラスはこのメソッドを上書きする
+   *
+   * @param messages 通知メッセージ
+   * @param payloads 通知の種類とパラメータ
+   * @throws 送信に失敗した場合
+   */
+  protected async sendBatch(
+    messages: NotificationMessage[],
+    payloads: NotificationPayload[]
+  ): Promise<void> {
+    for (const [index, message] of messages.entries()) {
+      await this.send(message, payloads[index])
+    }
+  }
+
+  /**
+   * 通知メッセージを組み立てて送信する
+   *
+   * @param payload 通知の種類とパラメータ
+   * @throws 送信に失敗した場合
+   */
+  private async deliver(payload: NotificationPayload): Promise<void> {
+    await this.notifyBatch([payload])
+  }
+}
+
+/**
+ * JSON を POST する
+ *
+ * @param url 送信先 URL
+ * @param body 送信する JSON
+ * @param headers 追加のヘッダー
+ * @throws レスポンスのステータスコードが 2xx でない場合
+ */
+export async function postJson(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers,
+    },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(NOTIFIER_REQUEST_TIMEOUT_MS),
+  })
+
+  if (!response.ok) {
+    throw new Error(
+      `Request failed with status ${response.status} ${response.statusText}`
+    )
+  }
+}
@@ -0,0 +1,224 @@
+import type { OperatorAlertConfig, TwoFactorInput } from './config'
+import { operatorAlertsCounter } from './metrics'
+import type { Notifier, OperatorAlertKind } from './notifier'
+import { formatDuration } from './session-tracker'
+import type { StateTransition, WebSocketMonitor } from './websocket-monitor'
+
+/**
+ * 運用者向けアラートの状態
+ */
+export interface OperatorAlerterStatus {
+  /** 障害が始まった日時（障害中でない場合は null、ISO 8601 形式） */
+  outageSince: string | null
+  /** 現在の障害で送信したアラートの種類（送信していない場合は null） */
+  alertedKind: OperatorAlertKind | null
+  /** 最後に送信したアラート */
+  lastAlert: { kind: OperatorAlertKind; at: string } | null
+  /** 送信したアラートの累計（復旧の通知を含む） */
+  alertsSent: number
+  /** 送信を抑制したアラートの累計 */
+  alertsSuppressed: number
+}
+
+/**
+ * 認証エラーや長時間の接続障害を運用者向けアラートとして通知するクラス
+ *
+ * WebSocketMonitor のイベントを購読し、セッション切れ・認証の連続失敗・
+ * 2FA コードの入力待ち・再接続の試行回数がしきい値を超えた場合にアラートを送信する。
+ * 1 回の障害（接続できなくなってから再接続するまで）で送信するアラートは 1 回までとし、
+ * アラートを送信した障害から復旧した場合のみ復旧を通知する。
+ * 障害を繰り返す場合に備え、アラートは OPERATOR_ALERT_MIN_INTERVAL_MINUTES 分に 1 回までとする。
+ * ただし、2FA コードの入力待ちは対応が必要なため、求められるたびに送信する。
+ */
+export class OperatorAlerter {
+  private config: OperatorAlertConfig
+  private notifier: Notifier
+  private outageSince: Date | null = null
+  private alertedKind: OperatorAlertKind | null = null
+  private authFailures = 0
+  private lastAlert: { kind: OperatorAlertKind; at: Date } | null = null
+  /** 最後に障害のアラートを送信した日時（復旧の通知は含まない） */
+  private lastRaisedAt: Date | null = null
+  private alertsSent = 0
+  private alertsSuppressed = 0
+
+  /**
+   * OperatorAlerter を初期化し、WebSocketMonitor のイベントを購読する
+   *
+   * @param config 運用者向けアラートの設定
+   * @param monitor WebSocket 接続監視
+   * @param notifier アラートの送信先
+   */
+  constructor(
+    config: OperatorAlertConfig,
+    monitor: WebSocketMonitor,
+    notifier: Notifier
+  ) {
+    this.config = config
+    this.notifier = notifier
+
+    monitor.on('disconnected', () => {
+      this.markOutage()
+    })
+    monitor.on('session-expired', () => {
+      this.raise(
+        'session-expired',
+        'VRChat のセッションが切れたため、ログインし直しています'
+      )
+    })
+    monitor.on('two-factor-required', (input: TwoFactorInput) => {
+      this.raise(
+        'two-factor-required',
+        input === 'http'
+          ? 'ログインに 2FA コードが必要です。ADMIN_API_TOKEN で認証して、ヘルスチェックサーバーの POST /auth/two-factor に 2FA コードを送信してください'
+          : 'ログインに 2FA コードが必要です。コンソールで 2FA コードを入力してください'
+      )
+    })
+    monitor.on('auth-failed', (message: string, cooldownMs: number) => {
+      this.authFailures++
+      this.markOutage()
+      if (this.authFailures >= this.config.authFailureThreshold) {
+        this.raise(
+          'auth-failed',
+          `VRChat の認証に ${this.authFailures} 回続けて失敗しました（${message}）。${formatDuration(cooldownMs)} 後に再試行します`
+        )
+      }
+    })
+    monitor.on('degraded', () => {
+      // REST API にはログインできているため、認証失敗の回数を数え直す
+      this.authFailures = 0
+    })
+    monitor.on('reconnect-scheduled', (attempt: number) => {
+      this.markOutage()
+      if (attempt >= this.config.reconnectThreshold) {
+        this.raise(
+          'disconnected',
+          `WebSocket に ${attempt} 回続けて再接続できていません。再接続を続けます`
+        )
+      }
+    })
+    monitor.on('state-change', (transition: StateTransition) => {
+      if (transition.to === 'connected') {
+        this.resolve()
+      }
+    })
+  }
+
+  /**
+   * 運用者向けアラートの状態を取得する
+   *
+   * @returns 運用者向けアラートの状態
+   */
+  getStatus(): OperatorAlerterStatus {
+    return {
+      outageSince: this.outageSince?.toISOString() ?? null,
+      alertedKind: this.alertedKind,
+      lastAlert: this.lastAlert
+        ? { kind: this.lastAlert.kind, at: this.lastAlert.at.toISOString() }
+        : null,
+      alertsSent: this.alertsSent,
+      alertsSuppressed: this.alertsSuppressed,
+    }
+  }
+
+  /**
+   * 障害が始まったことを記録する（障害中の場合は何もしない）
+   */
+  private markOutage(): void {
+    this.outageSince ??= new Date()
+  }
+
+  /**
+   * アラートを送信する
+   * 現在の障害ですでに送信した場合と、最小間隔を空けていない場合は送信しない
+   *
+   * @param kind アラートの種類
+   * @param detail アラートの詳細
+   */
+  private raise(kind: OperatorAlertKind, detail: string): void {
+    this.markOutage()
+    console.warn(`[ALERT] ${kind}: ${detail}`)
+
+    // 2FA コードの入力待ちは対応が必要なため、同じ障害の他のアラートや最小間隔では抑制しない
+    if (kind === 'two-factor-required') {
+      this.alertedKind = kind
+      this.lastRaisedAt = new Date()
+      this.send(kind, detail)
+      return
+    }
+
+    if (this.alertedKind !== null) {
+      this.alertsSuppressed++
+      console.log(
+        `[ALERT] Suppressed ${kind} alert (already alerted ${this.alertedKind} for this outage)`
+      )
+      return
+    }
+
+    if (
+      this.lastRaisedAt &&
+      Date.now() - this.lastRaisedAt.getTime() < this.config.minIntervalMs
+    ) {
+      this.alertsSuppressed++
+      console.log(
+        `[ALERT] Suppressed ${kind} alert (last alert was sent at ${this.lastRaisedAt.toISOString()})`
+      )
+      return
+    }
+
+    this.alertedKind = kind
+    this.lastRaisedAt = new Date()
+    this.send(kind, detail)
+  }
+
+  /**
+   * 障害からの復旧を記録し、アラートを送信した障害の場合は復旧を通知する
+   */
+  private resolve(): void {
+    const outageSince = this.outageSince
+    const alertedKind = this.alertedKind
+    this.outageSince = null
+    this.alertedKind = null
+    this.authFailures = 0
+
+    if (!outageSince || alertedKind === null) {
+      return
+    }
+
+    console.log(
+      `[ALERT] Recovered from outage since ${outageSince.toISOString()}`
+    )
+    this.send(
+      'recovered',
+      'WebSocket に再接続し、通知を再開しました',
+      outageSince
+    )
+  }
+
+  /**
+   * アラートを送信する
+   *
+   * @param kind アラートの種類
+   * @param detail アラートの詳細
+   * @param since 障害が始まった日時
+   */
+  private send(
+    kind: OperatorAlertKind,
+    detail: string,
+    since: Date | null = this.outageSince
+  ): void {
+    this.lastAlert = { kind, at: new Date() }
+    this.alertsSent++
+    operatorAlertsCounter.inc({ kind })
+
+    this.notifier
+      .notifyOperatorAlert({
+        kind,
+        detail,
+        since: (since ?? new Date()).toISOString(),
+      })
+      .catch((error: unknown) => {
+        console.error(`[ALERT] Failed to send ${kind} alert:`, error)
+      })
+  }
+}
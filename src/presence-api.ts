@@ -0,0 +1,285 @@
+import type * as http from 'node:http'
+import { isAuthorized, sendError, sendJson } from './http-utils'
+import { formatLocation, type ParsedLocation } from './location-parser'
+import type { LocationHistory, LocationHistoryQuery } from './location-history'
+import type { LocationStore } from './location-store'
+import type { ProfileStore } from './profile-store'
+import type { SessionTracker } from './session-tracker'
+import type { WorldInfo } from './vrchat-client'
+import type { WatchList } from './watch-list'
+import type { WorldInfoService } from './world-info-service'
+
+/** 参照 API の認証トークン（未設定の場合は認証なし） */
+const API_TOKEN = process.env.API_TOKEN ?? ''
+
+/** 監視対象ユーザーの一覧のパス */
+const USERS_PATH = '/users'
+
+/** 履歴の取得件数のデフォルト値 */
+const DEFAULT_HISTORY_LIMIT = 100
+
+/** 履歴の取得件数の上限 */
+const MAX_HISTORY_LIMIT = 1000
+
+/**
+ * ユーザーの現在の状態
+ */
+interface UserPresence {
+  /** ユーザー ID */
+  userId: string
+  /** ユーザーの表示名（未取得の場合は null） */
+  displayName: string | null
+  /** オンラインかどうか */
+  online: boolean
+  /** 現在の Location（オフラインまたは未取得の場合は null） */
+  location: string | null
+  /** 現在の Location の解析結果（未取得の場合は null） */
+  parsedLocation: ParsedLocation | null
+  /** 現在の Location の表示用文字列（未取得の場合は null） */
+  locationText: string | null
+  /** ステータス（未取得の場合は null） */
+  status: string | null
+  /** ステータスメッセージ（未取得の場合は null） */
+  statusDescription: string | null
+  /** 現在のワールド情報（キャッシュにない場合は null） */
+  world: WorldInfo | null
+  /** オンラインになった日時（ISO 8601 形式、オフラインの場合は null） */
+  onlineSince: string | null
+  /** 現在の Location に入った日時（ISO 8601 形式、オフラインの場合は null） */
+  locationSince: string | null
+  /** 最終更新日時（ISO 8601 形式、未取得の場合は null） */
+  updatedAt: string | null
+}
+
+/**
+ * クエリパラメータの日時を解析する
+ *
+ * @param value クエリパラメータの値
+ * @returns 解析結果（未指定の場合は undefined、不正な場合は null）
+ */
+function parseDateParam(value: string | null): Date | null | undefined {
+  if (value === null) {
+    return undefined
+  }
+
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * 監視対象ユーザーの現在の状態と Location 履歴を返す参照用 HTTP API
+ *
+ * API_TOKEN が設定されている場合は Authorization: Bearer <API_TOKEN> で
+ * 認証されたリクエストのみを受け付ける。
+ *
+ * - GET /users: 監視対象ユーザーの現在の状態の一覧
+ * - GET /users/:userId: ユーザーの現在の状態
+ * - GET /users/:userId/history?since=&until=&limit=: ユーザーの Location 履歴
+ * - GET /users/:userId/renames: ユーザーの表示名の変更履歴
+ */
+export class PresenceApi {
+  private watchList: WatchList
+  private locationStore: LocationStore
+  private locationHistory: LocationHistory
+  private sessionTracker: SessionTracker
+  private worldInfo: WorldInfoService
+  private profileStore: ProfileStore
+
+  /**
+   * PresenceApi を初期化する
+   *
+   * @param watchList 監視対象ユーザーの一覧
+   * @param locationStore Location ストア
+   * @param locationHistory Location 履歴
+   * @param sessionTracker セッショントラッカー
+   * @param worldInfo ワールド情報サービス
+   * @param profileStore プロフィールストア
+   */
+  constructor(
+    watchList: WatchList,
+    locationStore: LocationStore,
+    locationHistory: LocationHistory,
+    sessionTracker: SessionTracker,
+    worldInfo: WorldInfoService,
+    profileStore: ProfileStore
+  ) {
+    this.watchList = watchList
+    this.locationStore = locationStore
+    this.locationHistory = locationHistory
+    this.sessionTracker = sessionTracker
+    this.worldInfo = worldInfo
+    this.profileStore = profileStore
+  }
+
+  /**
+   * 参照 API のリクエストを処理する
+   *
+   * @param request HTTP リクエスト
+   * @param response HTTP レスポンス
+   * @param url 解析済みのリクエスト URL
+   * @returns リクエストを処理した場合は true
+   */
+  async handle(
+    request: http.IncomingMessage,
+    response: http.ServerResponse,
+    url: URL
+  ): Promise<boolean> {
+    const segments = url.pathname.split('/').filter((segment) => segment !== '')
+    if (segments[0] !== USERS_PATH.slice(1) || segments.length > 3) {
+      return false
+    }
+
+    if (API_TOKEN !== '' && !isAuthorized(request, API_TOKEN)) {
+      response.setHeader('WWW-Authenticate', 'Bearer')
+      sendError(response, 401, 'Unauthorized')
+      return true
+    }
+
+    if (request.method !== 'GET') {
+      response.setHeader('Allow', 'GET')
+      sendError(response, 405, 'Method Not Allowed')
+      return true
+    }
+
+    if (segments.length === 1) {
+      await this.handleListUsers(response)
+      return true
+    }
+
+    let userId: string
+    try {
+      userId = decodeURIComponent(segments[1])
+    } catch {
+      sendError(response, 400, 'Invalid user ID')
+      return true
+    }
+
+    if (!this.watchList.isWatched(userId)) {
+      sendError(response, 404, 'User not found')
+      return true
+    }
+
+    if (segments.length === 2) {
+      sendJson(response, 200, await this.getPresence(userId))
+      return true
+    }
+
+    if (segments[2] === 'history') {
+      this.handleHistory(response, userId, url.searchParams)
+      return true
+    }
+
+    if (segments[2] === 'renames') {
+      sendJson(response, 200, {
+        userId,
+        entries: this.profileStore.getRenames(userId),
+      })
+      return true
+    }
+
+    sendError(response, 404, 'Not Found')
+    return true
+  }
+
+  /**
+   * 監視対象ユーザーの現在の状態の一覧を返す
+   *
+   * @param response HTTP レスポンス
+   */
+  private async handleListUsers(response: http.ServerResponse): Promise<void> {
+    const users = await Promise.all(
+      this.watchList.getUserIds().map((userId) => this.getPresence(userId))
+    )
+    sendJson(response, 200, { users })
+  }
+
+  /**
+   * ユーザーの Location 履歴を返す
+   *
+   * @param response HTTP レスポンス
+   * @param userId ユーザー ID
+   * @param params クエリパラメータ
+   */
+  private handleHistory(
+    response: http.ServerResponse,
+    userId: string,
+    params: URLSearchParams
+  ): void {
+    const since = parseDateParam(params.get('since'))
+    if (since === null) {
+      sendError(response, 400, 'since must be an ISO 8601 date')
+      return
+    }
+
+    const until = parseDateParam(params.get('until'))
+    if (until === null) {
+      sendError(response, 400, 'until must be an ISO 8601 date')
+      return
+    }
+
+    const limitParam = params.get('limit')
+    const limit =
+      limitParam === null ? DEFAULT_HISTORY_LIMIT : Number(limitParam)
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+      sendError(
+        response,
+        400,
+        `limit must be an integer between 1 and ${MAX_HISTORY_LIMIT}`
+      )
+      return
+    }
+
+    const query: LocationHistoryQuery = { userId, since, until, limit }
+    sendJson(response, 200, {
+      userId,
+      entries: this.locationHistory.query(query),
+    })
+  }
+
+  /**
+   * ユーザーの現在の状態を取得する
+   *
+   * ワールド情報はキャッシュからのみ取得し、API は呼び出さない
+   *
+   * @param userId ユーザー ID
+   * @returns ユーザーの現在の状態
+   */
+  private async getPresence(userId: string): Promise<UserPresence> {
+    const stored = this.locationStore.getLocation(userId)
+    const session = this.sessionTracker.getActiveSession(userId)
+
+    if (!stored) {
+      return {
+        userId,
+        displayName: null,
+        online: false,
+        location: null,
+        parsedLocation: null,
+        locationText: null,
+        status: null,
+        statusDescription: null,
+        world: null,
+        onlineSince: null,
+        locationSince: null,
+        updatedAt: null,
+      }
+    }
+
+    const world = await this.worldInfo.resolve(null, stored.parsedLocation)
+
+    return {
+      userId,
+      displayName: stored.displayName,
+      online: stored.parsedLocation.kind !== 'offline',
+      location: stored.location,
+      parsedLocation: stored.parsedLocation,
+      locationText: formatLocation(stored.parsedLocation),
+      status: stored.status ?? null,
+      statusDescription: stored.statusDescription ?? null,
+      world,
+      onlineSince: session?.startedAt ?? null,
+      locationSince: session?.locationEnteredAt ?? null,
+      updatedAt: stored.updatedAt,
+    }
+  }
+}
@@ -0,0 +1,256 @@
+import * as fs from 'node:fs'
+import path from 'node:path'
+
+/** プロフィールデータファイルのパス（環境変数で上書き可能） */
+const PROFILE_FILE_PATH =
+  process.env.PROFILE_FILE_PATH ?? 'data/user-profiles.json'
+
+/** 保存の debounce 時間（ミリ秒） */
+const SAVE_DEBOUNCE_MS = 1000
+
+/** ユーザーごとに保持する表示名の変更履歴の最大件数 */
+const MAX_RENAMES_PER_USER = 100
+
+/** 変更を検知するプロフィールの項目 */
+export type ProfileField = 'displayName' | 'bio' | 'pronouns' | 'profilePicture'
+
+/** 変更を検知するプロフィールの項目の一覧 */
+const PROFILE_FIELDS: readonly ProfileField[] = [
+  'displayName',
+  'bio',
+  'pronouns',
+  'profilePicture',
+]
+
+/**
+ * ユーザーのプロフィール
+ * イベントに含まれない項目は undefined とし、比較の対象外とする
+ */
+export type UserProfile = Partial<Record<ProfileField, string>>
+
+/**
+ * プロフィールの項目の変更
+ */
+export interface ProfileChange {
+  /** 変更された項目 */
+  field: ProfileField
+  /** 変更前の値 */
+  previous: string
+  /** 変更後の値 */
+  current: string
+}
+
+/**
+ * 表示名の変更履歴のエントリ
+ */
+export interface RenameEntry {
+  /** 変更前の表示名 */
+  from: string
+  /** 変更後の表示名 */
+  to: string
+  /** 変更を検知した日時（ISO 8601 形式） */
+  timestamp: string
+}
+
+/**
+ * ユーザーごとのプロフィール情報
+ */
+interface StoredProfile {
+  /** 最後に確認したプロフィール */
+  profile: UserProfile
+  /** 表示名の変更履歴（古い順） */
+  renames: RenameEntry[]
+  /** 最終更新日時（ISO 8601 形式） */
+  updatedAt: string
+}
+
+/**
+ * プロフィールストアのデータ構造
+ */
+interface ProfileStoreData {
+  /** ユーザー ID をキーとしたプロフィール情報のマップ */
+  users: Record<string, StoredProfile>
+}
+
+/**
+ * ユーザーのプロフィールと表示名の変更履歴を管理するクラス
+ */
+export class ProfileStore {
+  private data: ProfileStoreData = { users: {} }
+  private saveTimeout: NodeJS.Timeout | null = null
+
+  /**
+   * ProfileStore を初期化する
+   * ファイルから既存データを読み込む
+   */
+  constructor() {
+    this.load()
+  }
+
+  /**
+   * ファイルからデータを読み込む
+   */
+  private load(): void {
+    try {
+      if (!fs.existsSync(PROFILE_FILE_PATH)) {
+        return
+      }
+
+      const content = fs.readFileSync(PROFILE_FILE_PATH, 'utf8')
+      const parsed: unknown = JSON.parse(content)
+
+      if (!this.isValidProfileStoreData(parsed)) {
+        console.warn(
+          '[PROFILE] Invalid data structure in file, starting with empty data'
+        )
+        return
+      }
+
+      this.data = parsed
+      console.log(
+        `[PROFILE] Loaded ${Object.keys(this.data.users).length} user profile(s) from file`
+      )
+    } catch (error) {
+      console.error('[PROFILE] Failed to load data:', error)
+      this.data = { users: {} }
+    }
+  }
+
+  /**
+   * データ構造が ProfileStoreData として有効かを検証する
+   *
+   * @param data 検証するデータ
+   * @returns 有効な場合は true
+   */
+  private isValidProfileStoreData(data: unknown): data is ProfileStoreData {
+    if (typeof data !== 'object' || data === null) {
+      return false
+    }
+
+    const obj = data as Record<string, unknown>
+    return typeof obj.users === 'object' && obj.users !== null
+  }
+
+  /**
+   * データをファイルに保存する（debounce 付き）
+   */
+  private scheduleSave(): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout)
+    }
+
+    this.saveTimeout = setTimeout(() => {
+      this.saveNow()
+    }, SAVE_DEBOUNCE_MS)
+  }
+
+  /**
+   * 即座にデータをファイルに保存する
+   */
+  private saveNow(): void {
+    try {
+      const directory = path.dirname(PROFILE_FILE_PATH)
+      if (!fs.existsSync(directory)) {
+        fs.mkdirSync(directory, { recursive: true })
+      }
+
+      fs.writeFileSync(PROFILE_FILE_PATH, JSON.stringify(this.data, null, 2))
+    } catch (error) {
+      console.error('[PROFILE] Failed to save data:', error)
+    }
+  }
+
+  /**
+   * ユーザーのプロフィールを更新し、変更された項目を返す
+   *
+   * 前回の値が保存されていない項目は保存するのみで変更として扱わない。
+   * 表示名が変更された場合は変更履歴に記録する。
+   *
+   * @param userId ユーザー ID
+   * @param profile 現在のプロフィール
+   * @returns 変更された項目（変更がない場合は空配列）
+   */
+  update(userId: string, profile: UserProfile): ProfileChange[] {
+    const stored = this.data.users[userId] as StoredProfile | undefined
+    const previous = stored?.profile ?? {}
+    const changes: ProfileChange[] = []
+    let updated = !stored
+
+    for (const field of PROFILE_FIELDS) {
+      const current = profile[field]
+      if (current === undefined || current === previous[field]) {
+        continue
+      }
+
+      const previousValue = previous[field]
+      if (previousValue !== undefined) {
+        changes.push({ field, previous: previousValue, current })
+      }
+      updated = true
+    }
+
+    if (!updated) {
+      return []
+    }
+
+    const now = new Date().toISOString()
+    const renames = stored?.renames ?? []
+    const rename = changes.find((change) => change.field === 'displayName')
+    if (rename) {
+      renames.push({
+        from: rename.previous,
+        to: rename.current,
+        timestamp: now,
+      })
+      renames.splice(0, Math.max(renames.length - MAX_RENAMES_PER_USER, 0))
+    }
+
+    this.data.users[userId] = {
+      profile: { ...previous, ...this.definedFields(profile) },
+      renames,
+      updatedAt: now,
+    }
+    this.scheduleSave()
+
+    return changes
+  }
+
+  /**
+   * 値が設定されている項目のみを取り出す
+   *
+   * @param profile プロフィール
+   * @returns 値が設定されている項目のみのプロフィール
+   */
+  private definedFields(profile: UserProfile): UserProfile {
+    const result: UserProfile = {}
+    for (const field of PROFILE_FIELDS) {
+      const value = profile[field]
+      if (value !== undefined) {
+        result[field] = value
+      }
+    }
+    return result
+  }
+
+  /**
+   * ユーザーの表示名の変更履歴を取得する
+   *
+   * @param userId ユーザー ID
+   * @returns 表示名の変更履歴（古い順）
+   */
+  getRenames(userId: string): RenameEntry[] {
+    const stored = this.data.users[userId] as StoredProfile | undefined
+    return stored?.renames ?? []
+  }
+
+  /**
+   * 終了時に未保存のデータを保存する
+   */
+  flush(): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout)
+      this.saveTimeout = null
+    }
+    this.saveNow()
+  }
+}
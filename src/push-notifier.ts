@@ -0,0 +1,127 @@
+import type { NotifierConfig } from './config'
+import {
+  formatMessageAsText,
+  MessageNotifier,
+  NOTIFIER_REQUEST_TIMEOUT_MS,
+  postJson,
+  type NotificationMessage,
+  type NotificationPayload,
+} from './notifier'
+
+/** 通知の種類ごとの優先度（ntfy: 1〜5） */
+const NTFY_PRIORITIES: Record<NotificationPayload['type'], number> = {
+  'location-change': 3,
+  online: 3,
+  offline: 2,
+  'status-change': 2,
+  'profile-change': 2,
+  'friendship-change': 4,
+  'operator-alert': 5,
+}
+
+/** 通知の種類ごとの優先度（Gotify: 0〜10） */
+const GOTIFY_PRIORITIES: Record<NotificationPayload['type'], number> = {
+  'location-change': 5,
+  online: 5,
+  offline: 3,
+  'status-change': 3,
+  'profile-change': 3,
+  'friendship-change': 7,
+  'operator-alert': 8,
+}
+
+/**
+ * ntfy または Gotify にプッシュ通知を送信するクラス
+ */
+export class PushNotifier extends MessageNotifier {
+  private type: 'ntfy' | 'gotify'
+  private url: string
+  private token: string | undefined
+
+  /**
+   * PushNotifier を初期化する
+   *
+   * @param config 通知先の設定（type は ntfy または gotify）
+   */
+  constructor(config: NotifierConfig & { type: 'ntfy' | 'gotify' }) {
+    super(config)
+    this.type = config.type
+    this.url = config.url
+    this.token = config.token
+  }
+
+  /**
+   * プッシュ通知を送信する
+   *
+   * @param message 通知メッセージ
+   * @param payload 通知の種類とパラメータ
+   */
+  protected async send(
+    message: NotificationMessage,
+    payload: NotificationPayload
+  ): Promise<void> {
+    await (this.type === 'ntfy'
+      ? this.sendNtfy(message, payload)
+      : this.sendGotify(message, payload))
+  }
+
+  /**
+   * ntfy にプッシュ通知を送信する
+   *
+   * @param message 通知メッセージ
+   * @param payload 通知の種類とパラメータ
+   */
+  private async sendNtfy(
+    message: NotificationMessage,
+    payload: NotificationPayload
+  ): Promise<void> {
+    const headers: Record<string, string> = {
+      // ヘッダーは ASCII のみ許可されるため、RFC 2047 形式でエンコードする
+      Title: `=?UTF-8?B?${Buffer.from(message.title).toString('base64')}?=`,
+      Priority: String(NTFY_PRIORITIES[payload.type]),
+      Tags: payload.type,
+    }
+    if (message.thumbnailUrl) {
+      headers.Icon = message.thumbnailUrl
+    }
+    if (this.token) {
+      headers.Authorization = `Bearer ${this.token}`
+    }
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers,
+      body: formatMessageAsText(message),
+      signal: AbortSignal.timeout(NOTIFIER_REQUEST_TIMEOUT_MS),
+    })
+
+    if (!response.ok) {
+      throw new Error(
+        `Request failed with status ${response.status} ${response.statusText}`
+      )
+    }
+  }
+
+  /**
+   * Gotify にプッシュ通知を送信する
+   *
+   * @param message 通知メッセージ
+   * @param payload 通知の種類とパラメータ
+   */
+  private async sendGotify(
+    message: NotificationMessage,
+    payload: NotificationPayload
+  ): Promise<void> {
+    const url = `${this.url.replace(/\/+$/, '')}/message`
+
+    await postJson(
+      url,
+      {
+        title: message.title,
+        message: formatMessageAsText(message),
+        priority: GOTIFY_PRIORITIES[payload.type],
+      },
+      { 'X-Gotify-Key': this.token ?? '' }
+    )
+  }
+}
@@ -0,0 +1,416 @@
+import type { VRChat } from 'vrchat'
+import type { ReconcileConfig } from './config'
+import { reconcileDriftsCounter } from './metrics'
+import {
+  FRIENDS_PAGE_SIZE,
+  getFriends,
+  getUser,
+  type UserInfo,
+} from './vrchat-client'
+import type { WatchList } from './watch-list'
+
+/** API 呼び出し回数を数える期間（ミリ秒） */
+const BUDGET_WINDOW_MS = 60 * 60 * 1000
+
+/**
+ * 照合で取得したユーザー情報を反映する関数
+ *
+ * @param userInfo 取得したユーザー情報
+ * @param fetchedAt 取得を開始した日時（エポックミリ秒）
+ * @returns 保存されている状態とずれていた場合は true
+ */
+export type ReconcileHandler = (
+  userInfo: UserInfo,
+  fetchedAt: number
+) => Promise<boolean>
+
+/**
+ * 照合の状態
+ */
+export interface ReconcilerStatus {
+  /** 照合が有効かどうか */
+  enabled: boolean
+  /** degraded 状態のポーリング中かどうか */
+  degraded: boolean
+  /** 照合の間隔（ミリ秒） */
+  intervalMs: number
+  /** 1 時間あたりの API 呼び出し回数の上限 */
+  apiBudgetPerHour: number
+  /** 直近 1 時間の API 呼び出し回数 */
+  apiCallsLastHour: number
+  /** 最後に照合した日時（ISO 8601 形式） */
+  lastRunAt: string | null
+  /** 最後の照合で確認したユーザー数 */
+  lastCheckedUsers: number
+  /** 検知した状態のずれの累計 */
+  driftsDetected: number
+}
+
+/**
+ * 監視対象ユーザーの状態を定期的に API から取得し、保存されている状態と照合するクラス
+ *
+ * WebSocket のイベントが取りこぼされた場合でも状態のずれを検知できるようにする。
+ * API の呼び出し回数は RECONCILE_API_BUDGET_PER_HOUR 回/時間以内に抑え、
+ * 1 回の照合で確認しきれないユーザーは次回以降に順番に確認する。
+ * フレンド一覧 API でまとめて取得した方が呼び出し回数が少ない場合はまとめて取得する。
+ *
+ * WebSocket を利用できない degraded 状態の間は、DEGRADED_POLL_INTERVAL_SECONDS 秒ごとに
+ * DEGRADED_POLL_API_BUDGET_PER_HOUR 回/時間以内でポーリングし、状態の変化を検知する。
+ */
+export class Reconciler {
+  private config: ReconcileConfig
+  private watchList: WatchList
+  private getClient: () => VRChat | null
+  private handler: ReconcileHandler
+  private timer: NodeJS.Timeout | null = null
+  private started = false
+  private degraded = false
+  private running = false
+  /** 直近の API 呼び出し日時（エポックミリ秒） */
+  private apiCalls: number[] = []
+  /** 次に個別に確認するユーザーの位置 */
+  private cursor = 0
+  /** 最後にまとめて取得したフレンドの数 */
+  private lastFriendCount = 0
+  private lastRunAt: Date | null = null
+  private lastCheckedUsers = 0
+  private driftsDetected = 0
+
+  /**
+   * Reconciler を初期化する
+   *
+   * @param config 照合の設定
+   * @param watchList 監視対象ユーザーの一覧
+   * @param getClient 接続中の VRChat クライアントを返す関数（未接続の場合は null）
+   * @param handler 取得したユーザー情報を反映する関数
+   */
+  constructor(
+    config: ReconcileConfig,
+    watchList: WatchList,
+    getClient: () => VRChat | null,
+    handler: ReconcileHandler
+  ) {
+    this.config = config
+    this.watchList = watchList
+    this.getClient = getClient
+    this.handler = handler
+  }
+
+  /**
+   * 定期的な照合を開始する
+   */
+  start(): void {
+    this.started = true
+    this.schedule()
+  }
+
+  /**
+   * 定期的な照合を停止する
+   */
+  stop(): void {
+    this.started = false
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * degraded 状態のポーリングに切り替える、または通常の照合に戻す
+   *
+   * @param degraded degraded 状態の場合は true
+   */
+  setDegraded(degraded: boolean): void {
+    if (this.degraded === degraded) {
+      return
+    }
+
+    this.degraded = degraded
+    console.log(
+      degraded
+        ? '[RECONCILER] Switching to degraded polling'
+        : '[RECONCILER] Switching back to reconciliation polling'
+    )
+    if (!this.started) {
+      return
+    }
+
+    this.schedule()
+
+    // degraded 状態ではイベントを受信できないため、次の間隔を待たずに状態を取得する
+    if (degraded) {
+      this.reconcile().catch((error: unknown) => {
+        console.error('[RECONCILER] Error during reconciliation:', error)
+      })
+    }
+  }
+
+  /**
+   * degraded 状態のポーリング中かどうかを取得する
+   *
+   * @returns degraded 状態のポーリング中の場合は true
+   */
+  isDegraded(): boolean {
+    return this.degraded
+  }
+
+  /**
+   * 現在の状態に応じた間隔で照合のタイマーを設定する
+   */
+  private schedule(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+
+    const intervalMs = this.getIntervalMs()
+    const budget = this.getBudgetPerHour()
+    if (intervalMs <= 0 || budget <= 0) {
+      console.log(
+        `[RECONCILER] ${this.degraded ? 'Degraded' : 'Reconciliation'} polling is disabled`
+      )
+      return
+    }
+
+    this.timer = setInterval(() => {
+      this.reconcile().catch((error: unknown) => {
+        console.error('[RECONCILER] Error during reconciliation:', error)
+      })
+    }, intervalMs)
+
+    console.log(
+      `[RECONCILER] Started ${this.degraded ? 'degraded' : 'reconciliation'} polling (interval: ${intervalMs / 1000} seconds, budget: ${budget} calls/hour)`
+    )
+  }
+
+  /**
+   * 現在の状態の照合間隔を取得する
+   *
+   * @returns 照合の間隔（ミリ秒）
+   */
+  private getIntervalMs(): number {
+    return this.degraded
+      ? this.config.degradedPollIntervalMs
+      : this.config.intervalMs
+  }
+
+  /**
+   * 現在の状態の 1 時間あたりの API 呼び出し回数の上限を取得する
+   *
+   * @returns 1 時間あたりの API 呼び出し回数の上限
+   */
+  private getBudgetPerHour(): number {
+    return this.degraded
+      ? this.config.degradedPollApiBudgetPerHour
+      : this.config.apiBudgetPerHour
+  }
+
+  /**
+   * 照合の状態を取得する
+   *
+   * @returns 照合の状態
+   */
+  getStatus(): ReconcilerStatus {
+    return {
+      enabled: this.timer !== null,
+      degraded: this.degraded,
+      intervalMs: this.getIntervalMs(),
+      apiBudgetPerHour: this.getBudgetPerHour(),
+      apiCallsLastHour: this.countRecentApiCalls(Date.now()),
+      lastRunAt: this.lastRunAt?.toISOString() ?? null,
+      lastCheckedUsers: this.lastCheckedUsers,
+      driftsDetected: this.driftsDetected,
+    }
+  }
+
+  /**
+   * 監視対象ユーザーの状態を照合する
+   * 前回の照合が終わっていない場合や未接続の場合は何もしない
+   */
+  async reconcile(): Promise<void> {
+    const vrchat = this.getClient()
+    if (!vrchat || this.running) {
+      return
+    }
+
+    this.running = true
+    try {
+      const userIds = this.watchList.getUserIds()
+      const budget = this.getCycleBudget()
+      if (userIds.length === 0 || budget <= 0) {
+        return
+      }
+
+      // まとめて取得した方が呼び出し回数が少なく、予算内に収まる場合はまとめて取得する
+      const bulkCost = this.estimateBulkCost(userIds.length)
+      const checked =
+        bulkCost < userIds.length && bulkCost <= budget
+          ? await this.reconcileFromFriends(vrchat, userIds, bulkCost)
+          : await this.reconcileUsers(vrchat, userIds, budget)
+
+      this.lastRunAt = new Date()
+      this.lastCheckedUsers = checked
+    } finally {
+      this.running = false
+    }
+  }
+
+  /**
+   * 照合以外の API 呼び出しを 1 時間の上限に含めて記録する
+   * 上限に達している場合は記録せず、呼び出しを見送らせる
+   *
+   * @returns 呼び出してよい場合は true
+   */
+  tryConsumeBudget(): boolean {
+    if (this.countRecentApiCalls(Date.now()) >= this.getBudgetPerHour()) {
+      return false
+    }
+    this.consumeBudget(1)
+    return true
+  }
+
+  /**
+   * フレンド一覧 API でまとめて取得して照合する
+   *
+   * @param vrchat VRChat クライアント
+   * @param userIds 監視対象ユーザー ID
+   * @param cost 見積もった API 呼び出し回数
+   * @returns 確認したユーザー数
+   */
+  private async reconcileFromFriends(
+    vrchat: VRChat,
+    userIds: string[],
+    cost: number
+  ): Promise<number> {
+    this.consumeBudget(cost)
+    const fetchedAt = Date.now()
+    const friends = await getFriends(vrchat)
+    if (!friends) {
+      console.warn('[RECONCILER] Failed to fetch friend list')
+      return 0
+    }
+    this.lastFriendCount = friends.length
+
+    const friendMap = new Map(friends.map((friend) => [friend.id, friend]))
+    let checked = 0
+    for (const userId of userIds) {
+      const userInfo = friendMap.get(userId)
+      if (!userInfo) {
+        continue
+      }
+
+      await this.applyUserInfo(userInfo, fetchedAt)
+      checked++
+    }
+
+    return checked
+  }
+
+  /**
+   * ユーザーごとに取得して照合する
+   * 予算内で確認できる人数のみ確認し、残りは次回以降に確認する
+   *
+   * @param vrchat VRChat クライアント
+   * @param userIds 監視対象ユーザー ID
+   * @param budget 今回使用できる API 呼び出し回数
+   * @returns 確認したユーザー数
+   */
+  private async reconcileUsers(
+    vrchat: VRChat,
+    userIds: string[],
+    budget: number
+  ): Promise<number> {
+    const count = Math.min(userIds.length, budget)
+    let checked = 0
+
+    for (let index = 0; index < count; index++) {
+      const userId = userIds[(this.cursor + index) % userIds.length]
+      this.consumeBudget(1)
+      const fetchedAt = Date.now()
+      const userInfo = await getUser(vrchat, userId)
+      if (!userInfo) {
+        continue
+      }
+
+      await this.applyUserInfo(userInfo, fetchedAt)
+      checked++
+    }
+
+    this.cursor = (this.cursor + count) % userIds.length
+    return checked
+  }
+
+  /**
+   * 取得したユーザー情報を反映し、ずれていた場合は記録する
+   *
+   * @param userInfo 取得したユーザー情報
+   * @param fetchedAt 取得を開始した日時（エポックミリ秒）
+   */
+  private async applyUserInfo(
+    userInfo: UserInfo,
+    fetchedAt: number
+  ): Promise<void> {
+    if (!(await this.handler(userInfo, fetchedAt))) {
+      return
+    }
+
+    this.driftsDetected++
+    reconcileDriftsCounter.inc()
+    console.warn(
+      `[RECONCILER] Detected state drift for ${userInfo.displayName} (${userInfo.id})`
+    )
+  }
+
+  /**
+   * フレンド一覧 API でまとめて取得する場合の API 呼び出し回数を見積もる
+   * オンライン・オフラインそれぞれ最後のページは件数が満たないため 1 回ずつ加える
+   *
+   * @param watchedCount 監視対象ユーザー数
+   * @returns 見積もった API 呼び出し回数
+   */
+  private estimateBulkCost(watchedCount: number): number {
+    const friendCount = Math.max(this.lastFriendCount, watchedCount)
+    return Math.floor(friendCount / FRIENDS_PAGE_SIZE) + 2
+  }
+
+  /**
+   * 1 回の照合で使用できる API 呼び出し回数を求める
+   * 1 時間の上限を照合の回数で均等に分け、直近 1 時間の残りを超えないようにする
+   *
+   * @returns 使用できる API 呼び出し回数
+   */
+  private getCycleBudget(): number {
+    const budgetPerHour = this.getBudgetPerHour()
+    const perCycle = Math.max(
+      1,
+      Math.floor((budgetPerHour * this.getIntervalMs()) / BUDGET_WINDOW_MS)
+    )
+    const remaining = budgetPerHour - this.countRecentApiCalls(Date.now())
+    return Math.max(0, Math.min(perCycle, remaining))
+  }
+
+  /**
+   * 直近 1 時間の API 呼び出し回数を数える（古い記録は破棄する）
+   *
+   * @param now 現在日時（エポックミリ秒）
+   * @returns 直近 1 時間の API 呼び出し回数
+   */
+  private countRecentApiCalls(now: number): number {
+    this.apiCalls = this.apiCalls.filter(
+      (timestamp) => now - timestamp < BUDGET_WINDOW_MS
+    )
+    return this.apiCalls.length
+  }
+
+  /**
+   * API 呼び出しを記録する
+   *
+   * @param count 呼び出し回数
+   */
+  private consumeBudget(count: number): void {
+    const now = Date.now()
+    for (let index = 0; index < count; index++) {
+      this.apiCalls.push(now)
+    }
+  }
+}
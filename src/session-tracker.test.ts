@@ -0,0 +1,158 @@
+import * as fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { parseLocation } from './location-parser'
+import type { SessionTracker as SessionTrackerClass } from './session-tracker'
+
+const USER_ID = 'usr_target'
+const WORLD_A_ID = 'wrld_aaaaaaaa-0000-0000-0000-000000000000'
+const WORLD_A = `${WORLD_A_ID}:11111~region(jp)`
+const WORLD_B_ID = 'wrld_bbbbbbbb-0000-0000-0000-000000000000'
+const WORLD_B = `${WORLD_B_ID}:22222~region(jp)`
+
+/** 1 分（ミリ秒） */
+const MINUTE_MS = 60 * 1000
+
+/**
+ * 基準時刻から指定した分数だけ経過した日時を作成する
+ *
+ * @param minutes 経過した分数
+ * @returns 日時
+ */
+function at(minutes: number): Date {
+  return new Date(Date.UTC(2026, 0, 1) + minutes * MINUTE_MS)
+}
+
+let directory: string
+let SessionTracker: typeof SessionTrackerClass
+let formatDuration: (ms: number) => string
+
+beforeEach(async () => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'session-tracker-'))
+  // セッションデータファイルのパスは読み込み時に決まるため、モジュールを読み込み直す
+  process.env.SESSION_FILE_PATH = path.join(directory, 'user-sessions.json')
+  jest.resetModules()
+  ;({ SessionTracker, formatDuration } = await import('./session-tracker'))
+  jest.spyOn(console, 'log').mockImplementation(() => undefined)
+  // debounce された保存がテストの終了後に実行されないようにする
+  jest.useFakeTimers()
+})
+
+afterEach(() => {
+  jest.useRealTimers()
+  jest.restoreAllMocks()
+  Reflect.deleteProperty(process.env, 'SESSION_FILE_PATH')
+  fs.rmSync(directory, { recursive: true, force: true })
+})
+
+describe('formatDuration', () => {
+  test.each([
+    [0, '0m'],
+    [59 * 1000, '0m'],
+    [5 * MINUTE_MS, '5m'],
+    [(3 * 60 + 12) * MINUTE_MS, '3h12m'],
+    [(2 * 24 * 60 + 4 * 60 + 1) * MINUTE_MS, '2d4h1m'],
+    [-MINUTE_MS, '0m'],
+  ])('formats %i ms as %s', (ms: number, expected: string) => {
+    expect(formatDuration(ms)).toBe(expected)
+  })
+})
+
+describe('SessionTracker', () => {
+  test('closes a session with its duration and the time spent in each world', () => {
+    const tracker = new SessionTracker()
+
+    expect(
+      tracker.recordLocation(USER_ID, parseLocation(WORLD_A), at(0))
+    ).toStrictEqual({ onlineDurationMs: null, previousStayMs: null })
+    expect(
+      tracker.recordLocation(USER_ID, parseLocation(WORLD_B), at(30))
+    ).toStrictEqual({ onlineDurationMs: null, previousStayMs: 30 * MINUTE_MS })
+    expect(
+      tracker.recordLocation(USER_ID, parseLocation('private'), at(40))
+    ).toStrictEqual({ onlineDurationMs: null, previousStayMs: 10 * MINUTE_MS })
+    expect(
+      tracker.recordLocation(USER_ID, parseLocation(null), at(60))
+    ).toStrictEqual({
+      onlineDurationMs: 60 * MINUTE_MS,
+      previousStayMs: 20 * MINUTE_MS,
+    })
+
+    expect(tracker.getActiveSession(USER_ID)).toBeUndefined()
+    // インスタンス以外の Location での滞在はワールドの滞在時間に含めない
+    expect(tracker.getStats(USER_ID)).toStrictEqual({
+      sessionCount: 1,
+      totalOnlineMs: 60 * MINUTE_MS,
+      worldTimeMs: {
+        [WORLD_A_ID]: 30 * MINUTE_MS,
+        [WORLD_B_ID]: 10 * MINUTE_MS,
+      },
+    })
+  })
+
+  test('ignores a repeated location and an offline user without a session', () => {
+    const tracker = new SessionTracker()
+
+    expect(
+      tracker.recordLocation(USER_ID, parseLocation(null), at(0))
+    ).toStrictEqual({ onlineDurationMs: null, previousStayMs: null })
+
+    tracker.recordLocation(USER_ID, parseLocation(WORLD_A), at(0))
+    expect(
+      tracker.recordLocation(USER_ID, parseLocation(WORLD_A), at(10))
+    ).toStrictEqual({ onlineDurationMs: null, previousStayMs: null })
+    expect(tracker.getActiveSession(USER_ID)).toMatchObject({
+      location: WORLD_A,
+      locationEnteredAt: at(0).toISOString(),
+    })
+  })
+
+  test('does not report a stay before the location is known', () => {
+    const tracker = new SessionTracker()
+
+    tracker.recordOnline(USER_ID, at(0))
+    // すでに進行中のセッションは開始し直さない
+    tracker.recordOnline(USER_ID, at(5))
+    expect(
+      tracker.recordLocation(USER_ID, parseLocation(WORLD_A), at(10))
+    ).toStrictEqual({ onlineDurationMs: null, previousStayMs: null })
+    expect(tracker.getActiveSession(USER_ID)).toMatchObject({
+      startedAt: at(0).toISOString(),
+      worldId: WORLD_A_ID,
+      locationEnteredAt: at(10).toISOString(),
+    })
+  })
+
+  test('closes a session that ended during downtime at the given time', () => {
+    const tracker = new SessionTracker()
+
+    tracker.recordLocation(USER_ID, parseLocation(WORLD_A), at(0))
+    expect(
+      tracker.recordLocation(USER_ID, parseLocation(null), at(600), at(20))
+    ).toStrictEqual({
+      onlineDurationMs: 20 * MINUTE_MS,
+      previousStayMs: 20 * MINUTE_MS,
+    })
+    expect(tracker.getStats(USER_ID)?.worldTimeMs).toStrictEqual({
+      [WORLD_A_ID]: 20 * MINUTE_MS,
+    })
+  })
+
+  test('keeps active sessions and the time they were saved across restarts', () => {
+    const tracker = new SessionTracker()
+    expect(tracker.getPreviousSavedAt()).toBeNull()
+
+    tracker.recordLocation(USER_ID, parseLocation(WORLD_A), at(0))
+    const beforeFlush = Date.now()
+    tracker.flush()
+
+    const restarted = new SessionTracker()
+    expect(restarted.getActiveSession(USER_ID)).toMatchObject({
+      startedAt: at(0).toISOString(),
+      location: WORLD_A,
+    })
+    expect(restarted.getPreviousSavedAt()?.getTime()).toBeGreaterThanOrEqual(
+      beforeFlush
+    )
+  })
+})
@@ -0,0 +1,362 @@
+import * as fs from 'node:fs'
+import path from 'node:path'
+import { getWorldId, type ParsedLocation } from './location-parser'
+
+/** セッションデータファイルのパス（環境変数で上書き可能） */
+const SESSION_FILE_PATH =
+  process.env.SESSION_FILE_PATH ?? 'data/user-sessions.json'
+
+/** 保存の debounce 時間（ミリ秒） */
+const SAVE_DEBOUNCE_MS = 1000
+
+/**
+ * 進行中のオンラインセッション
+ */
+export interface OnlineSession {
+  /** ユーザー ID */
+  userId: string
+  /** セッション開始日時（ISO 8601 形式） */
+  startedAt: string
+  /** 現在の Location（未取得の場合は null） */
+  location: string | null
+  /** 現在のワールド ID（インスタンスでない場合は null） */
+  worldId: string | null
+  /** 現在の Location に入った日時（ISO 8601 形式） */
+  locationEnteredAt: string
+}
+
+/**
+ * ユーザーごとの累計統計
+ */
+export interface UserSessionStats {
+  /** 終了したセッションの数 */
+  sessionCount: number
+  /** 累計オンライン時間（ミリ秒） */
+  totalOnlineMs: number
+  /** ワールド ID をキーとした累計滞在時間（ミリ秒） */
+  worldTimeMs: Record<string, number>
+}
+
+/**
+ * セッションデータのデータ構造
+ */
+interface SessionStoreData {
+  /** ユーザー ID をキーとした進行中のセッション */
+  active: Record<string, OnlineSession>
+  /** ユーザー ID をキーとした累計統計 */
+  stats: Record<string, UserSessionStats>
+  /** 最後に保存した日時（ISO 8601 形式、古いファイルには含まれない） */
+  savedAt?: string
+}
+
+/**
+ * セッション状態の遷移結果
+ */
+export interface SessionTransition {
+  /** 終了したオンラインセッションの長さ（ミリ秒、終了していない場合は null） */
+  onlineDurationMs: number | null
+  /** 直前の Location での滞在時間（ミリ秒、移動していない場合は null） */
+  previousStayMs: number | null
+}
+
+/**
+ * ミリ秒を `3h12m` のような表示用の文字列に変換する
+ *
+ * @param ms ミリ秒
+ * @returns 表示用の文字列
+ */
+export function formatDuration(ms: number): string {
+  const totalMinutes = Math.floor(Math.max(ms, 0) / 1000 / 60)
+  const days = Math.floor(totalMinutes / 60 / 24)
+  const hours = Math.floor(totalMinutes / 60) % 24
+  const minutes = totalMinutes % 60
+
+  if (days > 0) {
+    return `${days}d${hours}h${minutes}m`
+  }
+  if (hours > 0) {
+    return `${hours}h${minutes}m`
+  }
+  return `${minutes}m`
+}
+
+/**
+ * ユーザーのオンラインセッションとワールドごとの滞在時間を記録するクラス
+ *
+ * LocationStore に記録される Location の遷移を元にセッションを開閉し、
+ * 再起動をまたいでも進行中のセッションを保持する
+ */
+export class SessionTracker {
+  private data: SessionStoreData = { active: {}, stats: {} }
+  private saveTimeout: NodeJS.Timeout | null = null
+  /** 前回の実行で最後に保存した日時（不明な場合は null） */
+  private previousSavedAt: Date | null = null
+
+  /**
+   * SessionTracker を初期化する
+   * ファイルから既存データを読み込む
+   */
+  constructor() {
+    this.load()
+  }
+
+  /**
+   * ファイルからデータを読み込む
+   */
+  private load(): void {
+    try {
+      if (!fs.existsSync(SESSION_FILE_PATH)) {
+        return
+      }
+
+      const content = fs.readFileSync(SESSION_FILE_PATH, 'utf8')
+      const parsed: unknown = JSON.parse(content)
+
+      if (!this.isValidSessionStoreData(parsed)) {
+        console.warn(
+          '[SESSION] Invalid data structure in file, starting with empty data'
+        )
+        return
+      }
+
+      this.data = parsed
+      if (parsed.savedAt !== undefined) {
+        const savedAt = new Date(parsed.savedAt)
+        this.previousSavedAt = Number.isNaN(savedAt.getTime()) ? null : savedAt
+      }
+      console.log(
+        `[SESSION] Loaded ${Object.keys(this.data.active).length} active session(s) from file`
+      )
+    } catch (error) {
+      console.error('[SESSION] Failed to load data:', error)
+      this.data = { active: {}, stats: {} }
+    }
+  }
+
+  /**
+   * データ構造が SessionStoreData として有効かを検証する
+   *
+   * @param data 検証するデータ
+   * @returns 有効な場合は true
+   */
+  private isValidSessionStoreData(data: unknown): data is SessionStoreData {
+    if (typeof data !== 'object' || data === null) {
+      return false
+    }
+
+    const obj = data as Record<string, unknown>
+    return (
+      typeof obj.active === 'object' &&
+      obj.active !== null &&
+      typeof obj.stats === 'object' &&
+      obj.stats !== null &&
+      (obj.savedAt === undefined || typeof obj.savedAt === 'string')
+    )
+  }
+
+  /**
+   * データをファイルに保存する（debounce 付き）
+   */
+  private scheduleSave(): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout)
+    }
+
+    this.saveTimeout = setTimeout(() => {
+      this.saveNow()
+    }, SAVE_DEBOUNCE_MS)
+  }
+
+  /**
+   * 即座にデータをファイルに保存する
+   */
+  private saveNow(): void {
+    try {
+      const directory = path.dirname(SESSION_FILE_PATH)
+      if (!fs.existsSync(directory)) {
+        fs.mkdirSync(directory, { recursive: true })
+      }
+
+      this.data.savedAt = new Date().toISOString()
+      fs.writeFileSync(SESSION_FILE_PATH, JSON.stringify(this.data, null, 2))
+    } catch (error) {
+      console.error('[SESSION] Failed to save data:', error)
+    }
+  }
+
+  /**
+   * ユーザーの累計統計を取得する（存在しない場合は作成する）
+   *
+   * @param userId ユーザー ID
+   * @returns 累計統計
+   */
+  private getOrCreateStats(userId: string): UserSessionStats {
+    const stats = this.data.stats[userId] as UserSessionStats | undefined
+    if (stats) {
+      return stats
+    }
+
+    const created: UserSessionStats = {
+      sessionCount: 0,
+      totalOnlineMs: 0,
+      worldTimeMs: {},
+    }
+    this.data.stats[userId] = created
+    return created
+  }
+
+  /**
+   * 現在の Location での滞在を終了し、ワールドごとの滞在時間に加算する
+   *
+   * @param session 進行中のセッション
+   * @param now 終了日時
+   * @returns 滞在時間（ミリ秒、Location が未取得の場合は null）
+   */
+  private closeStay(session: OnlineSession, now: Date): number | null {
+    if (session.location === null) {
+      return null
+    }
+
+    const stayMs = now.getTime() - new Date(session.locationEnteredAt).getTime()
+
+    if (session.worldId) {
+      const stats = this.getOrCreateStats(session.userId)
+      stats.worldTimeMs[session.worldId] =
+        (stats.worldTimeMs[session.worldId] ?? 0) + stayMs
+    }
+
+    return stayMs
+  }
+
+  /**
+   * オンラインセッションを開始する
+   * すでにセッションが進行中の場合は何もしない
+   *
+   * @param userId ユーザー ID
+   * @param now 開始日時
+   */
+  recordOnline(userId: string, now = new Date()): void {
+    if (userId in this.data.active) {
+      return
+    }
+
+    this.data.active[userId] = {
+      userId,
+      startedAt: now.toISOString(),
+      location: null,
+      worldId: null,
+      locationEnteredAt: now.toISOString(),
+    }
+    this.scheduleSave()
+  }
+
+  /**
+   * Location の遷移を記録する
+   *
+   * オフラインへの遷移ではセッションを終了し、それ以外ではセッションを開始
+   * （進行中でなければ）したうえで直前の Location での滞在を終了する。
+   * 起動時の差分検出に使うことで、停止中に終了したセッションも閉じられる。
+   * その場合は停止中の時間を含めないよう、`closedAt` に最後に確認できた日時を渡す。
+   *
+   * @param userId ユーザー ID
+   * @param location 遷移後の Location の解析結果
+   * @param now 遷移日時
+   * @param closedAt 進行中のセッションや滞在を終了する日時（省略時は `now`）
+   * @returns セッション状態の遷移結果
+   */
+  recordLocation(
+    userId: string,
+    location: ParsedLocation,
+    now = new Date(),
+    closedAt = now
+  ): SessionTransition {
+    const session = this.data.active[userId] as OnlineSession | undefined
+
+    if (location.kind === 'offline') {
+      if (!session) {
+        return { onlineDurationMs: null, previousStayMs: null }
+      }
+
+      const previousStayMs = this.closeStay(session, closedAt)
+      const onlineDurationMs =
+        closedAt.getTime() - new Date(session.startedAt).getTime()
+
+      const stats = this.getOrCreateStats(userId)
+      stats.sessionCount++
+      stats.totalOnlineMs += onlineDurationMs
+
+      Reflect.deleteProperty(this.data.active, userId)
+      this.scheduleSave()
+
+      return { onlineDurationMs, previousStayMs }
+    }
+
+    if (!session) {
+      this.data.active[userId] = {
+        userId,
+        startedAt: now.toISOString(),
+        location: location.raw,
+        worldId: getWorldId(location),
+        locationEnteredAt: now.toISOString(),
+      }
+      this.scheduleSave()
+      return { onlineDurationMs: null, previousStayMs: null }
+    }
+
+    if (session.location === location.raw) {
+      return { onlineDurationMs: null, previousStayMs: null }
+    }
+
+    const previousStayMs = this.closeStay(session, closedAt)
+    session.location = location.raw
+    session.worldId = getWorldId(location)
+    session.locationEnteredAt = now.toISOString()
+    this.scheduleSave()
+
+    return { onlineDurationMs: null, previousStayMs }
+  }
+
+  /**
+   * 前回の実行で最後にデータを保存した日時を取得する
+   *
+   * 停止中に終了したセッションは、少なくともこの日時までは続いていたとみなせる。
+   *
+   * @returns 最後に保存した日時、不明な場合は null
+   */
+  getPreviousSavedAt(): Date | null {
+    return this.previousSavedAt
+  }
+
+  /**
+   * 進行中のセッションを取得する
+   *
+   * @param userId ユーザー ID
+   * @returns 進行中のセッション、存在しない場合は undefined
+   */
+  getActiveSession(userId: string): OnlineSession | undefined {
+    return this.data.active[userId]
+  }
+
+  /**
+   * ユーザーの累計統計を取得する
+   *
+   * @param userId ユーザー ID
+   * @returns 累計統計、存在しない場合は undefined
+   */
+  getStats(userId: string): UserSessionStats | undefined {
+    return this.data.stats[userId]
+  }
+
+  /**
+   * 終了時にデータを保存する
+   *
+   * 次回の起動時に停止した日時として使うため、変更がなくても保存する
+   */
+  flush(): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout)
+      this.saveTimeout = null
+    }
+    this.saveNow()
+  }
+}
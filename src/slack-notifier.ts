@@ -0,0 +1,45 @@
+import type { NotifierConfig } from './config'
+import { MessageNotifier, postJson, type NotificationMessage } from './notifier'
+
+/**
+ * Slack 互換の Incoming Webhook に通知を送信するクラス
+ *
+ * Slack の attachments 形式を使うため、Mattermost など
+ * Slack 互換の Webhook にも送信できる
+ */
+export class SlackNotifier extends MessageNotifier {
+  private url: string
+
+  /**
+   * SlackNotifier を初期化する
+   *
+   * @param config 通知先の設定
+   */
+  constructor(config: NotifierConfig) {
+    super(config)
+    this.url = config.url
+  }
+
+  /**
+   * attachment を送信する
+   *
+   * @param message 通知メッセージ
+   */
+  protected async send(message: NotificationMessage): Promise<void> {
+    await postJson(this.url, {
+      text: this.mention ? `${this.mention} ${message.title}` : message.title,
+      attachments: [
+        {
+          color: `#${message.color.toString(16).padStart(6, '0')}`,
+          fields: message.fields.map((field) => ({
+            title: field.name,
+            value: field.value,
+            short: field.inline,
+          })),
+          thumb_url: message.thumbnailUrl,
+          ts: Math.floor(new Date(message.timestamp).getTime() / 1000),
+        },
+      ],
+    })
+  }
+}
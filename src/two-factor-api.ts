@@ -0,0 +1,202 @@
+import type * as http from 'node:http'
+import { TwoFactorFailedError } from './errors'
+import { isAuthorized, readJsonBody, sendError, sendJson } from './http-utils'
+
+/** 管理 API の認証トークン（2FA コードの送信の認証に使用する。未設定の場合は受け付けない） */
+const ADMIN_API_TOKEN = process.env.ADMIN_API_TOKEN ?? ''
+
+/** 2FA コードを送信するパス */
+const TWO_FACTOR_PATH = '/auth/two-factor'
+
+/** 2FA コードの形式（TOTP・メールの 6 桁のコード、またはリカバリーコード） */
+const TWO_FACTOR_CODE_PATTERN = /^[\dA-Za-z-]{6,16}$/
+
+/**
+ * 2FA コードの送信待ち
+ */
+interface PendingTwoFactorRequest {
+  /** 送信されたコードで解決する */
+  resolve: (code: string) => void
+  /** 送信を待つのをやめた場合に拒否する */
+  reject: (error: Error) => void
+  /** 送信を待つ時間を過ぎた場合のタイマー */
+  timer: NodeJS.Timeout
+  /** 送信を求めた日時 */
+  requestedAt: Date
+  /** 送信を締め切る日時 */
+  expiresAt: Date
+}
+
+/**
+ * 2FA コードの送信待ちの状態
+ */
+export interface TwoFactorStatus {
+  /** 2FA コードの送信を待っているかどうか */
+  pending: boolean
+  /** 送信を求めた日時（ISO 8601 形式） */
+  requestedAt: string | null
+  /** 送信を締め切る日時（ISO 8601 形式） */
+  expiresAt: string | null
+}
+
+/**
+ * コンソールを使えない環境で 2FA コードを HTTP で受け付ける API
+ *
+ * VRChat のログインに 2FA コードが必要になると、
+ * POST /auth/two-factor（ボディ: {"code": "123456"}）でコードを 1 回だけ受け付ける。
+ * Authorization: Bearer <ADMIN_API_TOKEN> で認証する（ログに認証情報を出力しないため、専用のトークンは発行しない）。
+ * VRCHAT_TWO_FACTOR_TIMEOUT_MINUTES 分以内に送信されない場合はログインを中断する。
+ */
+export class TwoFactorApi {
+  private timeoutMs: number
+  private pending: PendingTwoFactorRequest | null = null
+
+  /**
+   * TwoFactorApi を初期化する
+   *
+   * @param timeoutMs 2FA コードの送信を待つ時間（ミリ秒）
+   */
+  constructor(timeoutMs: number) {
+    this.timeoutMs = timeoutMs
+  }
+
+  /**
+   * 2FA コードの送信を求め、送信されるまで待つ
+   *
+   * @returns 送信された 2FA コード
+   * @throws TwoFactorFailedError 送信を待つ時間を過ぎた場合
+   */
+  async requestCode(): Promise<string> {
+    this.cancel()
+
+    const requestedAt = new Date()
+    const expiresAt = new Date(requestedAt.getTime() + this.timeoutMs)
+
+    console.warn(
+      `[2FA] VRChat requires a 2FA code. Submit it to POST ${TWO_FACTOR_PATH} on the health server by ${expiresAt.toISOString()}`
+    )
+
+    return new Promise<string>((resolve, reject) => {
+      this.pending = {
+        resolve,
+        reject,
+        requestedAt,
+        expiresAt,
+        timer: setTimeout(() => {
+          this.pending = null
+          console.error('[2FA] No 2FA code was submitted in time')
+          reject(
+            new TwoFactorFailedError(
+              `2FA code was not submitted within ${this.timeoutMs / 1000 / 60} minutes`,
+              null
+            )
+          )
+        }, this.timeoutMs),
+      }
+    })
+  }
+
+  /**
+   * 2FA コードの送信待ちの状態を取得する
+   *
+   * @returns 2FA コードの送信待ちの状態
+   */
+  getStatus(): TwoFactorStatus {
+    return {
+      pending: this.pending !== null,
+      requestedAt: this.pending?.requestedAt.toISOString() ?? null,
+      expiresAt: this.pending?.expiresAt.toISOString() ?? null,
+    }
+  }
+
+  /**
+   * 2FA コードの送信を待つのをやめ、待っていたログインを中断する（終了時にも使用する）
+   */
+  cancel(): void {
+    const pending = this.pending
+    if (!pending) {
+      return
+    }
+
+    clearTimeout(pending.timer)
+    this.pending = null
+    pending.reject(
+      new TwoFactorFailedError('2FA code request was cancelled', null)
+    )
+  }
+
+  /**
+   * 2FA コードの送信リクエストを処理する
+   *
+   * @param request HTTP リクエスト
+   * @param response HTTP レスポンス
+   * @param url 解析済みのリクエスト URL
+   * @returns リクエストを処理した場合は true
+   */
+  async handle(
+    request: http.IncomingMessage,
+    response: http.ServerResponse,
+    url: URL
+  ): Promise<boolean> {
+    if (ADMIN_API_TOKEN === '' || url.pathname !== TWO_FACTOR_PATH) {
+      return false
+    }
+
+    if (request.method !== 'POST') {
+      response.setHeader('Allow', 'POST')
+      sendError(response, 405, 'Method Not Allowed')
+      return true
+    }
+
+    if (!isAuthorized(request, ADMIN_API_TOKEN)) {
+      response.setHeader('WWW-Authenticate', 'Bearer')
+      sendError(response, 401, 'Unauthorized')
+      return true
+    }
+
+    const pending = this.pending
+    if (!pending) {
+      sendError(response, 409, 'No 2FA code is being requested')
+      return true
+    }
+
+    let body: unknown
+    try {
+      body = await readJsonBody(request)
+    } catch (error) {
+      sendError(
+        response,
+        400,
+        error instanceof Error ? error.message : 'Invalid request body'
+      )
+      return true
+    }
+
+    const code =
+      typeof body === 'object' && body !== null
+        ? (body as Record<string, unknown>).code
+        : undefined
+    if (
+      typeof code !== 'string' ||
+      !TWO_FACTOR_CODE_PATTERN.test(code.trim())
+    ) {
+      sendError(response, 400, 'code must be a 2FA code')
+      return true
+    }
+
+    // ボディの読み込み中に締め切られた、または別のリクエストで送信された場合
+    if (this.pending !== pending) {
+      sendError(response, 409, 'No 2FA code is being requested')
+      return true
+    }
+
+    // コードは 1 回だけ受け付ける（誤っていた場合は次のログインで改めて求める）
+    clearTimeout(pending.timer)
+    this.pending = null
+    pending.resolve(code.trim())
+    console.log('[2FA] 2FA code submitted, continuing login')
+
+    sendJson(response, 202, { accepted: true })
+    return true
+  }
+}
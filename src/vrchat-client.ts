@@ -1,12 +1,48 @@
 import * as readline from 'node:readline'
+import type { KeyvStoreAdapter } from 'keyv'
 import { KeyvFile } from 'keyv-file'
-import { VRChat } from 'vrchat'
+import { VRChat, type LimitedUserFriend } from 'vrchat'
 import type { Config } from './config'
+import { EncryptedKeyvStore } from './encrypted-keyv-store'
+import {
+  classifyApiError,
+  TwoFactorFailedError,
+  TwoFactorRequiredError,
+} from './errors'
+import { parseLocation } from './location-parser'
+import { vrchatApiDurationHistogram, vrchatApiErrorsCounter } from './metrics'
+import type { WorldInfoService } from './world-info-service'
 
 /** Cookie ファイルのパス（環境変数で上書き可能） */
 const COOKIE_FILE_PATH =
   process.env.COOKIE_FILE_PATH ?? 'data/vrchat-cookies.json'
 
+/**
+ * VRChat API を呼び出し、呼び出し時間とエラーをメトリクスに記録する
+ *
+ * @param operation API の操作名（メトリクスのラベル）
+ * @param call API を呼び出す関数
+ * @returns API の呼び出し結果
+ */
+async function callApi<T extends { error?: unknown }>(
+  operation: string,
+  call: () => Promise<T>
+): Promise<T> {
+  const endTimer = vrchatApiDurationHistogram.startTimer({ operation })
+  try {
+    const result = await call()
+    if (result.error) {
+      vrchatApiErrorsCounter.inc({ operation })
+    }
+    return result
+  } catch (error) {
+    vrchatApiErrorsCounter.inc({ operation })
+    throw error
+  } finally {
+    endTimer()
+  }
+}
+
 /**
  * readline を使って 2FA コードを入力させる
  *
@@ -33,20 +69,43 @@ interface CookieData {
   value: { name: string; value: string }[]
 }
 
+/**
+ * VRChat クライアントの初期化結果
+ */
+export interface VRChatConnection {
+  /** VRChat クライアント */
+  vrchat: VRChat
+  /** WebSocket (pipeline) の認証に成功したかどうか */
+  pipelineAuthenticated: boolean
+}
+
+/**
+ * VRChat クライアントの初期化中に発生する出来事の通知先
+ */
+export interface VRChatClientHooks {
+  /** 保存されているセッションが無効で、ログインし直す場合に呼び出す */
+  onLoginRequired?: () => void
+  /** 2FA コードの入力が必要な場合に呼び出す */
+  onTwoFactorRequired?: () => void
+  /** 2FA コードを取得する（省略した場合はコンソールで入力させる） */
+  requestTwoFactorCode?: () => Promise<string>
+}
+
 /**
  * WebSocket (pipeline) を認証する
  *
  * @param vrchat VRChat クライアント
- * @param keyvAdapter Cookie を保存している Keyv アダプタ
+ * @param keyvAdapter Cookie を保存している Keyv アダプタ（暗号化している場合は復号して読み込む）
+ * @returns 認証に成功した場合は true
  */
 async function authenticateWebSocket(
   vrchat: VRChat,
-  keyvAdapter: KeyvFile
-): Promise<void> {
+  keyvAdapter: KeyvStoreAdapter
+): Promise<boolean> {
   const cookiesData = await keyvAdapter.get('keyv:cookies')
   if (!cookiesData) {
     console.warn('[VRCHAT] No cookies data found, WebSocket not authenticated')
-    return
+    return false
   }
 
   // keyvAdapter.get の戻り値は string または object の可能性がある
@@ -58,7 +117,7 @@ async function authenticateWebSocket(
       console.error(
         '[VRCHAT] Failed to parse cookies data, WebSocket not authenticated'
       )
-      return
+      return false
     }
   } else if (typeof cookiesData === 'object') {
     // すでに object として保存されている場合
@@ -67,40 +126,77 @@ async function authenticateWebSocket(
     console.error(
       '[VRCHAT] Unexpected cookies data type, WebSocket not authenticated'
     )
-    return
+    return false
   }
 
   const authCookie = parsed.value.find((c) => c.name === 'auth')
   if (!authCookie) {
     console.warn('[VRCHAT] Auth cookie not found, WebSocket not authenticated')
-    return
+    return false
   }
 
   try {
     await vrchat.pipeline.authenticate(authCookie.value)
     console.log('[VRCHAT] WebSocket authenticated')
+    return true
   } catch (error) {
     console.error(
       '[VRCHAT] Failed to authenticate WebSocket:',
       error instanceof Error ? error.message : error
     )
+    return false
   }
 }
 
+/**
+ * Cookie 永続化用の Keyv アダプタを作成する
+ *
+ * 暗号化鍵が設定されている場合は値を暗号化して保存し、平文で保存されていた Cookie を暗号化し直す。
+ *
+ * @param config アプリケーション設定
+ * @returns Cookie 永続化用の Keyv アダプタ
+ */
+async function createCookieStore(config: Config): Promise<KeyvStoreAdapter> {
+  const fileStore = new KeyvFile({
+    filename: COOKIE_FILE_PATH,
+    writeDelay: 100,
+  })
+  if (!config.vrchat.cookieEncryptionKey) {
+    return fileStore
+  }
+
+  const store = new EncryptedKeyvStore(
+    fileStore,
+    config.vrchat.cookieEncryptionKey
+  )
+  const migrated = await store.migrate()
+  if (migrated > 0) {
+    console.log(
+      `[VRCHAT] Encrypted ${migrated} plaintext cookie entries in ${COOKIE_FILE_PATH}`
+    )
+  }
+  return store
+}
+
 /**
  * VRChat クライアントを初期化する
  *
+ * REST API のセッションを確立した後に WebSocket (pipeline) を認証する。
+ * pipeline の認証に失敗した場合も REST API は利用できるため、例外は送出しない。
+ *
  * @param config アプリケーション設定
- * @returns 初期化された VRChat クライアント
+ * @param hooks 初期化中に発生する出来事の通知先
+ * @returns 初期化された VRChat クライアントと pipeline の認証結果
+ * @throws VRChatConnectionError セッションの確認またはログインに失敗した場合（失敗の原因ごとのサブクラス）
  */
-export async function createVRChatClient(config: Config): Promise<VRChat> {
+export async function createVRChatClient(
+  config: Config,
+  hooks: VRChatClientHooks = {}
+): Promise<VRChatConnection> {
   console.log('[VRCHAT] Initializing VRChat client...')
 
   // Cookie 永続化用の Keyv アダプタを作成
-  const keyvAdapter = new KeyvFile({
-    filename: COOKIE_FILE_PATH,
-    writeDelay: 100,
-  })
+  const keyvAdapter = await createCookieStore(config)
 
   // VRChat クライアントを初期化
   const vrchat = new VRChat({
@@ -115,7 +211,9 @@ export async function createVRChatClient(config: Config): Promise<VRChat> {
 
   // まず Cookie を使ってセッション復元を試みる
   console.log('[VRCHAT] Checking existing session...')
-  const currentUserResult = await vrchat.getCurrentUser()
+  const currentUserResult = await callApi('getCurrentUser', () =>
+    vrchat.getCurrentUser()
+  )
 
   // セッションが有効な場合（displayName がある = CurrentUser）
   if (currentUserResult.data && 'displayName' in currentUserResult.data) {
@@ -124,23 +222,47 @@ export async function createVRChatClient(config: Config): Promise<VRChat> {
     )
 
     // WebSocket (pipeline) を認証するために keyv から auth cookie を取得
-    await authenticateWebSocket(vrchat, keyvAdapter)
+    const pipelineAuthenticated = await authenticateWebSocket(
+      vrchat,
+      keyvAdapter
+    )
 
-    return vrchat
+    return { vrchat, pipelineAuthenticated }
+  }
+
+  // API に到達できない場合やサーバーエラーの場合は、ログインしても失敗するため中断する
+  if (currentUserResult.error) {
+    const error = classifyApiError('getCurrentUser', currentUserResult)
+    if (error.statusCode !== 401) {
+      throw error
+    }
   }
 
   // セッションが無効な場合はログインを試みる
   console.log('[VRCHAT] No valid session, logging in...')
-  const loginResult = await vrchat.login({
-    username: config.vrchat.username,
-    password: config.vrchat.password,
-    totpSecret: config.vrchat.totpSecret,
-    // totpSecret が設定されていない場合は readline で 2FA コードを入力させる
-    twoFactorCode: config.vrchat.totpSecret ? undefined : promptTwoFactorCode,
-  })
+  hooks.onLoginRequired?.()
+  const loginResult = await callApi('login', () =>
+    vrchat.login({
+      username: config.vrchat.username,
+      password: config.vrchat.password,
+      totpSecret: config.vrchat.totpSecret,
+      // totpSecret が設定されていない場合は 2FA コードを入力させる
+      twoFactorCode: config.vrchat.totpSecret
+        ? undefined
+        : async () => {
+            hooks.onTwoFactorRequired?.()
+            return (hooks.requestTwoFactorCode ?? promptTwoFactorCode)()
+          },
+    })
+  )
 
   if (loginResult.error) {
-    throw new Error(`Failed to login: ${loginResult.error.message}`)
+    const error = classifyApiError('login', loginResult)
+    // 入力された 2FA コードの誤りは、入力し直せば成功するため TOTP シークレットの誤りと区別する
+    if (error instanceof TwoFactorRequiredError && !config.vrchat.totpSecret) {
+      throw new TwoFactorFailedError(error.message, error.statusCode, error)
+    }
+    throw error
   }
 
   // SDK は 2FA が必要な場合に内部で自動処理するため、
@@ -155,9 +277,36 @@ export async function createVRChatClient(config: Config): Promise<VRChat> {
   console.log(`[VRCHAT] Logged in as ${data.displayName}`)
 
   // ログイン後も WebSocket を認証する
-  await authenticateWebSocket(vrchat, keyvAdapter)
+  const pipelineAuthenticated = await authenticateWebSocket(vrchat, keyvAdapter)
 
-  return vrchat
+  return { vrchat, pipelineAuthenticated }
+}
+
+/**
+ * VRChat API に到達でき、セッションが有効かどうかを確認する
+ * 接続の死活確認に使用するため、最も軽い API（現在のユーザーの取得）を呼び出す
+ *
+ * @param vrchat VRChat クライアント
+ * @returns API に到達でき、セッションが有効な場合は true
+ */
+export async function checkSession(vrchat: VRChat): Promise<boolean> {
+  try {
+    const result = await callApi('getCurrentUser', () =>
+      vrchat.getCurrentUser()
+    )
+    if (result.error) {
+      console.warn(`[VRCHAT] Session check failed: ${result.error.message}`)
+      return false
+    }
+
+    return 'displayName' in result.data
+  } catch (error) {
+    console.warn(
+      '[VRCHAT] Session check failed:',
+      error instanceof Error ? error.message : error
+    )
+    return false
+  }
 }
 
 /**
@@ -165,24 +314,78 @@ export async function createVRChatClient(config: Config): Promise<VRChat> {
  *
  * @param vrchat VRChat クライアント
  * @param userId 確認するユーザー ID
- * @returns フレンドの場合は true
+ * @returns フレンドの場合は true（取得に失敗した場合は null）
  */
 export async function isFriend(
   vrchat: VRChat,
   userId: string
-): Promise<boolean> {
-  const result = await vrchat.getFriendStatus({ path: { userId } })
+): Promise<boolean | null> {
+  const result = await callApi('getFriendStatus', () =>
+    vrchat.getFriendStatus({ path: { userId } })
+  )
 
   if (result.error) {
     console.error(
       `[VRCHAT] Failed to get friend status for ${userId}: ${result.error.message}`
     )
-    return false
+    return null
   }
 
   return result.data.isFriend
 }
 
+/**
+ * ワールド情報の型定義
+ */
+export interface WorldInfo {
+  /** ワールド ID */
+  id: string
+  /** ワールド名 */
+  name: string
+  /** 作者のユーザー ID */
+  authorId: string
+  /** 作者の表示名 */
+  authorName: string
+  /** 定員 */
+  capacity: number
+  /** サムネイル画像 URL */
+  thumbnailImageUrl?: string
+}
+
+/**
+ * ワールド情報を取得する
+ *
+ * @param vrchat VRChat クライアント
+ * @param worldId ワールド ID
+ * @returns ワールド情報（取得できない場合は null）
+ */
+export async function getWorld(
+  vrchat: VRChat,
+  worldId: string
+): Promise<WorldInfo | null> {
+  const result = await callApi('getWorld', () =>
+    vrchat.getWorld({ path: { worldId } })
+  )
+
+  if (result.error) {
+    console.error(
+      `[VRCHAT] Failed to get world ${worldId}: ${result.error.message}`
+    )
+    return null
+  }
+
+  const world = result.data
+
+  return {
+    id: world.id,
+    name: world.name,
+    authorId: world.authorId,
+    authorName: world.authorName,
+    capacity: world.capacity,
+    thumbnailImageUrl: world.thumbnailImageUrl || undefined,
+  }
+}
+
 /**
  * ユーザー情報の型定義
  */
@@ -195,26 +398,36 @@ export interface UserInfo {
   location: string | null
   /** ステータス */
   status: string
+  /** ステータスメッセージ */
+  statusDescription: string
+  /** 自己紹介（取得できない場合は undefined） */
+  bio?: string
+  /** 代名詞（取得できない場合は undefined） */
+  pronouns?: string
+  /** プロフィール画像の URL（未設定の場合は空文字列、取得できない場合は undefined） */
+  profilePicOverride?: string
   /** 現在いるワールドの情報 */
-  world?: {
-    id: string
-    name: string
-    thumbnailImageUrl?: string
-  }
+  world?: WorldInfo
 }
 
 /**
  * ユーザー情報を取得する
  *
+ * worldInfoService を指定した場合は、現在いるワールドの情報も取得する
+ *
  * @param vrchat VRChat クライアント
  * @param userId ユーザー ID
+ * @param worldInfoService ワールド情報サービス
  * @returns ユーザー情報（取得できない場合は null）
  */
 export async function getUser(
   vrchat: VRChat,
-  userId: string
+  userId: string,
+  worldInfoService?: WorldInfoService
 ): Promise<UserInfo | null> {
-  const result = await vrchat.getUser({ path: { userId } })
+  const result = await callApi('getUser', () =>
+    vrchat.getUser({ path: { userId } })
+  )
 
   if (result.error) {
     console.error(
@@ -229,52 +442,108 @@ export async function getUser(
   const location =
     user.location && user.location !== 'offline' ? user.location : null
 
+  const world =
+    worldInfoService && location
+      ? await worldInfoService.resolve(vrchat, parseLocation(location))
+      : null
+
   return {
     id: user.id,
     displayName: user.displayName,
     location,
     status: user.status,
+    statusDescription: user.statusDescription,
+    bio: user.bio,
+    pronouns: user.pronouns,
+    profilePicOverride: user.profilePicOverride,
+    world: world ?? undefined,
   }
 }
 
+/** フレンド一覧の 1 ページあたりの取得件数 */
+export const FRIENDS_PAGE_SIZE = 100
+
 /**
- * フレンド一覧を取得する
- *
- * 現在は未使用だが、将来的に全フレンドの Location 監視機能を
- * 追加する際に使用する予定
+ * オンラインまたはオフラインのフレンドをページネーションですべて取得する
  *
  * @param vrchat VRChat クライアント
- * @returns フレンドのユーザー ID の配列
+ * @param offline true の場合はオフライン、false の場合はオンラインのフレンドを取得する
+ * @returns フレンドの配列（途中で取得に失敗した場合は null）
  */
-export async function getFriendIds(vrchat: VRChat): Promise<string[]> {
-  const friendIds: string[] = []
+async function fetchFriendPages(
+  vrchat: VRChat,
+  offline: boolean
+): Promise<LimitedUserFriend[] | null> {
+  const friends: LimitedUserFriend[] = []
   let offset = 0
-  const limit = 100
 
-  // ページネーションを使ってすべてのフレンドを取得
   while (true) {
-    const result = await vrchat.getFriends({
-      query: { n: limit, offset },
-    })
+    const result = await callApi('getFriends', () =>
+      vrchat.getFriends({
+        query: { n: FRIENDS_PAGE_SIZE, offset, offline },
+      })
+    )
 
     if (result.error) {
       console.error(
-        `[VRCHAT] Failed to get friends (offset=${offset}): ${result.error.message}`
+        `[VRCHAT] Failed to get friends (offline=${offline}, offset=${offset}): ${result.error.message}`
       )
-      break
+      return null
     }
 
-    for (const friend of result.data) {
-      friendIds.push(friend.id)
-    }
+    friends.push(...result.data)
 
     // すべて取得した場合はループを抜ける
-    if (result.data.length < limit) {
-      break
+    if (result.data.length < FRIENDS_PAGE_SIZE) {
+      return friends
     }
 
-    offset += limit
+    offset += FRIENDS_PAGE_SIZE
   }
+}
 
-  return friendIds
+/**
+ * すべてのフレンドのユーザー情報を取得する
+ *
+ * フレンド一覧 API をページ単位で呼び出すため、フレンドごとに getUser を
+ * 呼び出すよりも少ない API 呼び出しで取得できる。ワールド情報は含まない。
+ *
+ * @param vrchat VRChat クライアント
+ * @returns フレンドのユーザー情報の配列（取得に失敗した場合は null）
+ */
+export async function getFriends(vrchat: VRChat): Promise<UserInfo[] | null> {
+  const online = await fetchFriendPages(vrchat, false)
+  const offline = online ? await fetchFriendPages(vrchat, true) : null
+  if (!online || !offline) {
+    return null
+  }
+
+  const friends = new Map<string, UserInfo>()
+  for (const friend of [...offline, ...online]) {
+    friends.set(friend.id, {
+      id: friend.id,
+      displayName: friend.displayName,
+      location:
+        friend.location && friend.location !== 'offline'
+          ? friend.location
+          : null,
+      status: friend.status,
+      statusDescription: friend.statusDescription,
+      bio: friend.bio,
+      profilePicOverride: friend.profilePicOverride,
+    })
+  }
+  return [...friends.values()]
+}
+
+/**
+ * フレンドのユーザー ID の一覧を取得する
+ * すべてのフレンドを監視する場合のフレンド一覧の更新に使用する
+ *
+ * @param vrchat VRChat クライアント
+ * @returns フレンドのユーザー ID の配列（取得に失敗した場合は null）
+ */
+export async function getFriendIds(vrchat: VRChat): Promise<string[] | null> {
+  const friends = await getFriends(vrchat)
+  return friends ? friends.map((friend) => friend.id) : null
 }
@@ -0,0 +1,232 @@
+import * as fs from 'node:fs'
+import path from 'node:path'
+import type { Config } from './config'
+
+/** 監視リストファイルのパス（環境変数で上書き可能） */
+const WATCH_LIST_FILE_PATH =
+  process.env.WATCH_LIST_FILE_PATH ?? 'data/watch-list.json'
+
+/**
+ * 監視リストの変更内容のデータ構造
+ */
+interface WatchListData {
+  /** 実行中に追加されたユーザー ID */
+  added: string[]
+  /** 実行中に削除されたユーザー ID */
+  removed: string[]
+}
+
+/**
+ * 監視対象ユーザーの一覧を管理するクラス
+ *
+ * 設定（環境変数・設定ファイル）の監視対象ユーザーと、すべてのフレンドを監視する場合は
+ * 除外リストにないフレンドに対して、管理 API から追加・削除された変更を重ねて適用し、
+ * 変更内容をファイルに保存する
+ */
+export class WatchList {
+  private config: Config
+  private data: WatchListData = { added: [], removed: [] }
+  private friendIds = new Set<string>()
+
+  /**
+   * WatchList を初期化する
+   * ファイルから既存の変更内容を読み込む
+   *
+   * @param config アプリケーション設定（再読み込み後も同じオブジェクトを参照する）
+   */
+  constructor(config: Config) {
+    this.config = config
+    this.load()
+  }
+
+  /**
+   * ファイルから変更内容を読み込む
+   */
+  private load(): void {
+    try {
+      if (!fs.existsSync(WATCH_LIST_FILE_PATH)) {
+        return
+      }
+
+      const content = fs.readFileSync(WATCH_LIST_FILE_PATH, 'utf8')
+      const parsed: unknown = JSON.parse(content)
+
+      if (!this.isValidWatchListData(parsed)) {
+        console.warn(
+          '[WATCH-LIST] Invalid data structure in file, ignoring runtime changes'
+        )
+        return
+      }
+
+      this.data = parsed
+      console.log(
+        `[WATCH-LIST] Loaded runtime changes: ${this.data.added.length} added, ${this.data.removed.length} removed`
+      )
+    } catch (error) {
+      console.error('[WATCH-LIST] Failed to load data:', error)
+      this.data = { added: [], removed: [] }
+    }
+  }
+
+  /**
+   * データ構造が WatchListData として有効かを検証する
+   *
+   * @param data 検証するデータ
+   * @returns 有効な場合は true
+   */
+  private isValidWatchListData(data: unknown): data is WatchListData {
+    if (typeof data !== 'object' || data === null) {
+      return false
+    }
+
+    const obj = data as Record<string, unknown>
+    return (
+      Array.isArray(obj.added) &&
+      obj.added.every((id) => typeof id === 'string') &&
+      Array.isArray(obj.removed) &&
+      obj.removed.every((id) => typeof id === 'string')
+    )
+  }
+
+  /**
+   * 即座に変更内容をファイルに保存する
+   * 変更は頻繁ではないため debounce しない
+   */
+  private saveNow(): void {
+    try {
+      const directory = path.dirname(WATCH_LIST_FILE_PATH)
+      if (!fs.existsSync(directory)) {
+        fs.mkdirSync(directory, { recursive: true })
+      }
+
+      fs.writeFileSync(WATCH_LIST_FILE_PATH, JSON.stringify(this.data, null, 2))
+    } catch (error) {
+      console.error('[WATCH-LIST] Failed to save data:', error)
+    }
+  }
+
+  /**
+   * フレンドの一覧を置き換える
+   *
+   * @param friendIds フレンドのユーザー ID
+   * @returns 追加されたフレンドと削除されたフレンドのユーザー ID
+   */
+  setFriendIds(friendIds: string[]): { added: string[]; removed: string[] } {
+    const next = new Set(friendIds)
+    const added = friendIds.filter((userId) => !this.friendIds.has(userId))
+    const removed = [...this.friendIds].filter((userId) => !next.has(userId))
+    this.friendIds = next
+    return { added, removed }
+  }
+
+  /**
+   * フレンドを追加する
+   *
+   * @param userId ユーザー ID
+   */
+  addFriend(userId: string): void {
+    this.friendIds.add(userId)
+  }
+
+  /**
+   * フレンドを削除する
+   *
+   * @param userId ユーザー ID
+   */
+  removeFriend(userId: string): void {
+    this.friendIds.delete(userId)
+  }
+
+  /**
+   * 設定によって監視対象となるユーザーかどうかを判定する（管理 API の変更は含めない）
+   *
+   * @param userId ユーザー ID
+   * @returns 設定の監視対象ユーザー、または監視するフレンドの場合は true
+   */
+  private isConfigured(userId: string): boolean {
+    if (this.config.targetUserIds.includes(userId)) {
+      return true
+    }
+    return (
+      this.config.watchAllFriends &&
+      this.friendIds.has(userId) &&
+      !this.config.excludedUserIds.includes(userId)
+    )
+  }
+
+  /**
+   * 監視対象ユーザー ID の一覧を取得する
+   *
+   * @returns 監視対象ユーザー ID の配列
+   */
+  getUserIds(): string[] {
+    const userIds = new Set([
+      ...this.config.targetUserIds,
+      ...(this.config.watchAllFriends
+        ? [...this.friendIds].filter(
+            (userId) => !this.config.excludedUserIds.includes(userId)
+          )
+        : []),
+      ...this.data.added,
+    ])
+    for (const userId of this.data.removed) {
+      userIds.delete(userId)
+    }
+    return [...userIds]
+  }
+
+  /**
+   * ユーザーが監視対象かどうかを判定する
+   *
+   * @param userId ユーザー ID
+   * @returns 監視対象の場合は true
+   */
+  isWatched(userId: string): boolean {
+    if (this.data.removed.includes(userId)) {
+      return false
+    }
+    return this.isConfigured(userId) || this.data.added.includes(userId)
+  }
+
+  /**
+   * ユーザーを監視対象に追加する
+   *
+   * @param userId ユーザー ID
+   * @returns 追加された場合は true（すでに監視対象の場合は false）
+   */
+  add(userId: string): boolean {
+    if (this.isWatched(userId)) {
+      return false
+    }
+
+    this.data.removed = this.data.removed.filter((id) => id !== userId)
+    if (!this.isConfigured(userId)) {
+      this.data.added.push(userId)
+    }
+    this.saveNow()
+
+    console.log(`[WATCH-LIST] Added ${userId}`)
+    return true
+  }
+
+  /**
+   * ユーザーを監視対象から削除する
+   *
+   * @param userId ユーザー ID
+   * @returns 削除された場合は true（監視対象でない場合は false）
+   */
+  remove(userId: string): boolean {
+    if (!this.isWatched(userId)) {
+      return false
+    }
+
+    this.data.added = this.data.added.filter((id) => id !== userId)
+    if (this.isConfigured(userId)) {
+      this.data.removed.push(userId)
+    }
+    this.saveNow()
+
+    console.log(`[WATCH-LIST] Removed ${userId}`)
+    return true
+  }
+}
@@ -0,0 +1,59 @@
+import type { NotifierConfig } from './config'
+import {
+  formatMessageAsText,
+  MessageNotifier,
+  postJson,
+  type NotificationMessage,
+  type NotificationPayload,
+} from './notifier'
+
+/**
+ * 汎用の JSON Webhook に通知を送信するクラス
+ *
+ * 通知の種類とパラメータをそのまま JSON として POST し、
+ * 受信側で自由に加工できるようにする
+ */
+export class WebhookNotifier extends MessageNotifier {
+  private url: string
+  private token: string | undefined
+
+  /**
+   * WebhookNotifier を初期化する
+   *
+   * @param config 通知先の設定
+   */
+  constructor(config: NotifierConfig) {
+    super(config)
+    this.url = config.url
+    this.token = config.token
+  }
+
+  /**
+   * JSON を送信する
+   *
+   * @param message 通知メッセージ
+   * @param payload 通知の種類とパラメータ
+   */
+  protected async send(
+    message: NotificationMessage,
+    payload: NotificationPayload
+  ): Promise<void> {
+    const headers: Record<string, string> = {}
+    if (this.token) {
+      headers.Authorization = `Bearer ${this.token}`
+    }
+
+    await postJson(
+      this.url,
+      {
+        type: payload.type,
+        title: message.title,
+        text: formatMessageAsText(message),
+        params: payload.params,
+        mention: this.mention,
+        timestamp: message.timestamp,
+      },
+      headers
+    )
+  }
+}
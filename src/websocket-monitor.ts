@@ -1,26 +1,166 @@
-import { createVRChatClient } from './vrchat-client'
-import type { Config } from './config'
+import { EventEmitter } from 'node:events'
+import {
+  RateLimitedError,
+  VRChatConnectionError,
+  type VRChatErrorKind,
+} from './errors'
+import { connectionErrorsCounter, forcedReconnectsCounter } from './metrics'
+import { checkSession, createVRChatClient } from './vrchat-client'
+import type { Config, TwoFactorInput } from './config'
+import type TypedEmitter from 'typed-emitter'
 import type { VRChat } from 'vrchat'
 
+/** WebSocket 接続状態の一覧 */
+export const CONNECTION_STATES = [
+  'connecting',
+  'connected',
+  'degraded',
+  'reconnecting',
+  'stopped',
+] as const
+
 /**
  * WebSocket 接続状態
+ * degraded は REST API のみ利用でき、WebSocket (pipeline) を再接続中の状態
+ */
+export type ConnectionState = (typeof CONNECTION_STATES)[number]
+
+/** 保持する接続状態の遷移履歴の最大件数 */
+const STATE_HISTORY_SIZE = 50
+
+/**
+ * 接続状態の遷移
+ */
+export interface StateTransition {
+  /** 遷移前の状態 */
+  from: ConnectionState
+  /** 遷移後の状態 */
+  to: ConnectionState
+  /** 遷移の理由 */
+  reason: string
+  /** 遷移した日時（ISO 8601 形式） */
+  timestamp: string
+}
+
+/**
+ * 接続の死活判定
+ *
+ * - alive: 接続は生きている
+ * - stale: しきい値を超えてイベントを受信していない（WebSocket が開いており API にも到達できるため再接続しない）
+ * - dead: WebSocket が閉じている、または API に到達できない
+ * - not-connected: 接続していない（判定しない）
+ */
+export type LivenessVerdict = 'alive' | 'stale' | 'dead' | 'not-connected'
+
+/**
+ * 接続が切れていると判定した理由
+ *
+ * - socket-closed: WebSocket が閉じている
+ * - probe-failed: API の疎通確認に連続して失敗した
+ */
+export type DeadReason = 'socket-closed' | 'probe-failed'
+
+/**
+ * 接続の死活確認の状態
  */
-type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'stopped'
+export interface LivenessStatus {
+  /** 最後の判定 */
+  verdict: LivenessVerdict
+  /** 最後に判定した日時（ISO 8601 形式） */
+  checkedAt: string | null
+  /** イベントを受信していない時間（接続後またはイベント受信後からの経過時間、ミリ秒） */
+  silentForMs: number | null
+  /** イベント未受信で stale と判定するしきい値（ミリ秒） */
+  staleThresholdMs: number
+  /** 最後に API で疎通を確認した日時（ISO 8601 形式） */
+  lastProbeAt: string | null
+  /** 最後の API の疎通確認に成功したかどうか */
+  lastProbeOk: boolean | null
+  /** 死活確認により強制的に再接続した回数 */
+  forcedReconnects: number
+  /** 最後に強制的に再接続した理由と日時（ISO 8601 形式） */
+  lastForcedReconnect: { reason: DeadReason; at: string } | null
+}
+
+/**
+ * 接続エラーの分類（分類できない例外は unknown）
+ */
+export type ConnectionErrorKind = VRChatErrorKind | 'unknown'
+
+/**
+ * 最後の接続エラー
+ */
+export interface ConnectionErrorStatus {
+  /** エラーの分類 */
+  kind: ConnectionErrorKind
+  /** エラーメッセージ */
+  message: string
+  /** HTTP ステータスコード（応答がない場合や分類できない場合は null） */
+  statusCode: number | null
+  /** 発生した日時（ISO 8601 形式） */
+  at: string
+  /** 再接続までの待機時間（ミリ秒） */
+  retryInMs: number
+}
+
+/**
+ * WebSocketMonitor が発行するイベント
+ * （typed-emitter のイベントマップはインデックスシグネチャが必要なため type で定義する）
+ */
+// eslint-disable-next-line @typescript-eslint/consistent-type-definitions
+export type WebSocketMonitorEvents = {
+  /** 接続状態が変化した */
+  'state-change': (transition: StateTransition) => void
+  /** WebSocket (pipeline) の接続が確立した */
+  connected: (vrchat: VRChat) => void
+  /** WebSocket (pipeline) が切断された */
+  disconnected: (reason: string) => void
+  /** pipeline を利用できず REST API のみ利用できる（クライアントを作り直すたびに発行する） */
+  degraded: (vrchat: VRChat) => void
+  /** 再接続をスケジュールした */
+  'reconnect-scheduled': (attempt: number, delayMs: number) => void
+  /** 保存されていたセッションが切れたため、ログインし直す */
+  'session-expired': () => void
+  /** ログインに 2FA コードの入力が必要（input: 2FA コードの入力方法） */
+  'two-factor-required': (input: TwoFactorInput) => void
+  /** 認証に失敗した（クールダウン後に再接続する） */
+  'auth-failed': (message: string, cooldownMs: number) => void
+  /** しきい値を超えてイベントを受信していない（接続は生きているため再接続しない） */
+  stale: (silentForMs: number) => void
+  /** 接続が切れていると判定したため再接続する */
+  dead: (reason: DeadReason) => void
+}
 
 /**
  * WebSocket 接続監視クラス
  *
  * VRChat SDK の WebSocket (pipeline) 接続を監視し、切断時に自動再接続を行う
+ * pipeline を利用できない間は REST API のみ利用できる degraded 状態とする
+ * 接続状態の変化はイベントとして発行し、遷移履歴を保持する
  */
-export class WebSocketMonitor {
+export class WebSocketMonitor extends (EventEmitter as new () => TypedEmitter<WebSocketMonitorEvents>) {
   private config: Config
+  private requestTwoFactorCode: (() => Promise<string>) | undefined
   private state: ConnectionState = 'connecting'
+  private stateHistory: StateTransition[] = []
   private vrchat: VRChat | null = null
+  /** 一度でもセッションを確立したかどうか */
+  private hasSession = false
   private lastEventTime: Date | null = null
   private reconnectAttempts = 0
   private reconnectTimer: NodeJS.Timeout | null = null
   private healthCheckTimer: NodeJS.Timeout | null = null
   private isReconnecting = false
+  private connectedAt: Date | null = null
+  private liveness: LivenessVerdict = 'not-connected'
+  private livenessCheckedAt: Date | null = null
+  private lastProbeAt: Date | null = null
+  private lastProbeOk: boolean | null = null
+  private probeFailures = 0
+  private forcedReconnects = 0
+  private lastForcedReconnect: LivenessStatus['lastForcedReconnect'] = null
+  private isCheckingLiveness = false
+  private lastError: ConnectionErrorStatus | null = null
 
   /** 再接続の初回待機時間（ミリ秒） */
   private readonly INITIAL_BACKOFF = 1000
@@ -31,40 +171,37 @@ export class WebSocketMonitor {
   /** 認証失敗時のクールダウン時間（ミリ秒） */
   private readonly AUTH_FAILURE_COOLDOWN = 30 * 60 * 1000 // 30分
 
+  /** レート制限時に Retry-After の指定がない場合の待機時間（ミリ秒） */
+  private readonly RATE_LIMIT_COOLDOWN = 5 * 60 * 1000 // 5分
+
+  /** サーバーエラー時の最小待機時間（ミリ秒） */
+  private readonly SERVER_ERROR_MIN_DELAY = 60 * 1000 // 1分
+
   /** ヘルスチェックの間隔（ミリ秒） */
   private readonly HEALTH_CHECK_INTERVAL = 60 * 1000 // 1分
 
-  /** イベント未受信の警告閾値（ミリ秒） */
-  private readonly EVENT_TIMEOUT_WARNING = 24 * 60 * 60 * 1000 // 24時間
-
-  /** コールバック関数 */
-  private onConnected: ((vrchat: VRChat) => void) | null = null
-  private onDisconnected: (() => void) | null = null
+  /** 接続が切れていると判定する API の疎通確認の連続失敗回数 */
+  private readonly PROBE_FAILURE_THRESHOLD = 2
 
   /**
    * WebSocket 接続監視を初期化する
    *
    * @param config アプリケーション設定
+   * @param requestTwoFactorCode 2FA コードを取得する関数（省略した場合はコンソールで入力させる）
    */
-  constructor(config: Config) {
+  constructor(config: Config, requestTwoFactorCode?: () => Promise<string>) {
+    super()
     this.config = config
+    this.requestTwoFactorCode = requestTwoFactorCode
   }
 
   /**
    * WebSocket 接続を開始する
-   *
-   * @param onConnected 接続確立時のコールバック
-   * @param onDisconnected 切断時のコールバック
+   * 接続状態の変化は connected / disconnected / degraded などのイベントで通知する
    */
-  async start(
-    onConnected: (vrchat: VRChat) => void,
-    onDisconnected: () => void
-  ): Promise<void> {
+  async start(): Promise<void> {
     console.log('[MONITOR] Starting WebSocket monitor...')
 
-    this.onConnected = onConnected
-    this.onDisconnected = onDisconnected
-
     await this.connect()
     this.startHealthCheck()
   }
@@ -75,7 +212,7 @@ export class WebSocketMonitor {
   stop(): void {
     console.log('[MONITOR] Stopping WebSocket monitor...')
 
-    this.state = 'stopped'
+    this.setState('stopped', 'stopped')
 
     // タイマーをクリア
     if (this.reconnectTimer) {
@@ -111,6 +248,42 @@ export class WebSocketMonitor {
     return this.state
   }
 
+  /**
+   * 接続状態の遷移履歴を取得する
+   *
+   * @returns 接続状態の遷移（古い順、最大 STATE_HISTORY_SIZE 件）
+   */
+  getStateHistory(): StateTransition[] {
+    return [...this.stateHistory]
+  }
+
+  /**
+   * 接続状態を変更し、遷移を履歴に記録して state-change イベントを発行する
+   * 状態が変わらない場合は何もしない
+   *
+   * @param state 新しい状態
+   * @param reason 遷移の理由
+   */
+  private setState(state: ConnectionState, reason: string): void {
+    if (this.state === state) {
+      return
+    }
+
+    const transition: StateTransition = {
+      from: this.state,
+      to: state,
+      reason,
+      timestamp: new Date().toISOString(),
+    }
+    this.state = state
+    this.stateHistory.push(transition)
+    this.stateHistory.splice(
+      0,
+      Math.max(this.stateHistory.length - STATE_HISTORY_SIZE, 0)
+    )
+    this.emit('state-change', transition)
+  }
+
   /**
    * 最後のイベント受信時刻を取得する
    *
@@ -120,6 +293,42 @@ export class WebSocketMonitor {
     return this.lastEventTime
   }
 
+  /**
+   * 連続した再接続の試行回数を取得する
+   *
+   * @returns 再接続の試行回数（接続に成功すると 0 に戻る）
+   */
+  getReconnectAttempts(): number {
+    return this.reconnectAttempts
+  }
+
+  /**
+   * 接続の死活確認の状態を取得する
+   *
+   * @returns 死活確認の状態
+   */
+  getLiveness(): LivenessStatus {
+    return {
+      verdict: this.liveness,
+      checkedAt: this.livenessCheckedAt?.toISOString() ?? null,
+      silentForMs: this.getSilentMs(Date.now()),
+      staleThresholdMs: this.config.websocketLiveness.staleThresholdMs,
+      lastProbeAt: this.lastProbeAt?.toISOString() ?? null,
+      lastProbeOk: this.lastProbeOk,
+      forcedReconnects: this.forcedReconnects,
+      lastForcedReconnect: this.lastForcedReconnect,
+    }
+  }
+
+  /**
+   * 最後の接続エラーを取得する
+   *
+   * @returns 最後の接続エラー（エラーが発生していない場合は null）
+   */
+  getLastError(): ConnectionErrorStatus | null {
+    return this.lastError
+  }
+
   /**
    * VRChat クライアントを取得する
    *
@@ -137,7 +346,10 @@ export class WebSocketMonitor {
       return
     }
 
-    this.state = 'connecting'
+    // degraded の間は再接続中も REST API でのポーリングを続けるため状態を維持する
+    if (this.state !== 'degraded') {
+      this.setState('connecting', 'connect')
+    }
 
     try {
       console.log('[MONITOR] Connecting to VRChat WebSocket...')
@@ -155,76 +367,171 @@ export class WebSocketMonitor {
         this.vrchat = null
       }
 
-      this.vrchat = await createVRChatClient(this.config)
+      const { vrchat, pipelineAuthenticated } = await createVRChatClient(
+        this.config,
+        {
+          onLoginRequired: () => {
+            // 起動直後のログインはセッション切れとして扱わない
+            if (this.hasSession) {
+              this.emit('session-expired')
+            }
+          },
+          onTwoFactorRequired: () => {
+            this.emit(
+              'two-factor-required',
+              this.requestTwoFactorCode ? 'http' : 'stdin'
+            )
+          },
+          requestTwoFactorCode: this.requestTwoFactorCode,
+        }
+      )
+      this.vrchat = vrchat
+      this.hasSession = true
 
       // pipeline イベントハンドラを登録
       this.vrchat.pipeline.on('close', () => {
         console.warn('[MONITOR] WebSocket closed')
-        this.handleDisconnect()
+        this.handleDisconnect('closed')
       })
 
       this.vrchat.pipeline.on('error', (error: unknown) => {
         console.error('[MONITOR] WebSocket error:', error)
-        this.handleDisconnect()
+        this.handleDisconnect('error')
       })
 
-      this.state = 'connected'
+      if (!pipelineAuthenticated) {
+        this.enterDegraded('pipeline-unauthenticated')
+        return
+      }
+
+      this.setState('connected', 'connected')
       this.reconnectAttempts = 0
+      this.connectedAt = new Date()
+      this.liveness = 'alive'
+      this.probeFailures = 0
       console.log('[MONITOR] Connected to VRChat WebSocket')
 
-      // 接続確立コールバックを呼び出す
-      if (this.onConnected) {
-        this.onConnected(this.vrchat)
-      }
+      this.emit('connected', this.vrchat)
     } catch (error) {
       console.error('[MONITOR] Failed to connect to VRChat WebSocket:', error)
+      await this.handleConnectError(error)
+    }
+  }
 
-      // 認証エラーの場合は長時間クールダウン
-      const isAuthError = this.isAuthenticationError(error)
-      if (isAuthError) {
+  /**
+   * 接続エラーを分類し、分類ごとの待機時間の後に再接続する
+   *
+   * - 認証情報の誤り・2FA コードを用意できない: アカウントのロックを避けるため長時間クールダウンする
+   * - レート制限: Retry-After（指定がない場合は RATE_LIMIT_COOLDOWN）以上待機する
+   * - サーバーエラー: SERVER_ERROR_MIN_DELAY 以上バックオフする
+   * - 2FA コードの未送信・誤り、ネットワークエラー・その他: バックオフする
+   *
+   * @param error 接続時の例外
+   */
+  private async handleConnectError(error: unknown): Promise<void> {
+    const kind: ConnectionErrorKind =
+      error instanceof VRChatConnectionError ? error.kind : 'unknown'
+    const message = error instanceof Error ? error.message : String(error)
+
+    let delay: number
+    switch (kind) {
+      case 'invalid-credentials':
+      case 'two-factor-required': {
+        delay = this.AUTH_FAILURE_COOLDOWN
         console.error(
-          `[MONITOR] Authentication error detected. Cooling down for ${this.AUTH_FAILURE_COOLDOWN / 1000 / 60} minutes...`
+          `[MONITOR] Authentication error (${kind}) detected. Cooling down for ${delay / 1000 / 60} minutes...`
         )
-        await this.scheduleReconnect(this.AUTH_FAILURE_COOLDOWN)
-      } else {
-        // 通常のエラーの場合はバックオフして再接続
-        await this.scheduleReconnect(this.calculateBackoff())
+        this.emit('auth-failed', message, delay)
+        break
       }
+      case 'rate-limited': {
+        const retryAfter =
+          error instanceof RateLimitedError ? error.retryAfterMs : null
+        delay = Math.max(
+          retryAfter ?? this.RATE_LIMIT_COOLDOWN,
+          this.calculateBackoff()
+        )
+        console.warn(
+          `[MONITOR] Rate limited by VRChat API. Retrying in ${Math.ceil(delay / 1000)} seconds...`
+        )
+        break
+      }
+      case 'server': {
+        delay = Math.max(this.SERVER_ERROR_MIN_DELAY, this.calculateBackoff())
+        break
+      }
+      case 'two-factor-failed':
+      case 'network':
+      case 'unexpected':
+      case 'unknown': {
+        delay = this.calculateBackoff()
+        break
+      }
+    }
+
+    this.lastError = {
+      kind,
+      message,
+      statusCode:
+        error instanceof VRChatConnectionError ? error.statusCode : null,
+      at: new Date().toISOString(),
+      retryInMs: delay,
     }
+    connectionErrorsCounter.inc({ kind })
+
+    await this.scheduleReconnect(delay)
   }
 
   /**
-   * エラーが認証エラーかどうかを判定する
+   * pipeline を利用できない状態に移行し、pipeline の再接続をスケジュールする
+   * REST API は利用できるため、degraded イベントで VRChat クライアントを渡す
+   * （再接続でクライアントを作り直すたびに発行する）
    *
-   * @param error エラーオブジェクト
-   * @returns 認証エラーの場合は true
+   * @param reason 遷移の理由
    */
-  private isAuthenticationError(error: unknown): boolean {
-    if (error instanceof Error) {
-      const message = error.message.toLowerCase()
-      return (
-        message.includes('authentication') ||
-        message.includes('login') ||
-        message.includes('unauthorized') ||
-        message.includes('401')
+  private enterDegraded(reason: string): void {
+    if (this.state === 'stopped' || !this.vrchat) {
+      return
+    }
+
+    if (this.state !== 'degraded') {
+      console.warn(
+        '[MONITOR] WebSocket is unavailable, switching to degraded mode (REST API polling)'
       )
+      this.setState('degraded', reason)
+      this.liveness = 'not-connected'
     }
-    return false
+
+    this.emit('degraded', this.vrchat)
+
+    this.scheduleReconnect(this.calculateBackoff()).catch((error: unknown) => {
+      console.error('[MONITOR] Failed to schedule reconnect:', error)
+    })
   }
 
   /**
    * WebSocket 切断を処理する
+   *
+   * @param reason 切断の理由
+   * @param apiReachable REST API に到達できるかどうか（到達できない場合は degraded 状態にしない）
    */
-  private handleDisconnect(): void {
+  private handleDisconnect(reason: string, apiReachable = true): void {
     if (this.state === 'stopped' || this.isReconnecting) {
       return
     }
 
     console.warn('[MONITOR] Handling WebSocket disconnect...')
 
-    // 切断コールバックを呼び出す
-    if (this.onDisconnected) {
-      this.onDisconnected()
+    this.connectedAt = null
+    this.liveness = 'not-connected'
+
+    this.emit('disconnected', reason)
+
+    // REST API は利用できるため、再接続までは degraded 状態とする
+    // （疎通確認に失敗した場合はポーリングも失敗するため、そのまま再接続する）
+    if (this.vrchat && apiReachable) {
+      this.enterDegraded(reason)
+      return
     }
 
     // 再接続をスケジュール
@@ -246,12 +553,15 @@ export class WebSocketMonitor {
     }
 
     this.isReconnecting = true
-    this.state = 'reconnecting'
+    if (this.state !== 'degraded') {
+      this.setState('reconnecting', 'reconnect-scheduled')
+    }
 
     this.reconnectAttempts++
     console.log(
       `[MONITOR] Scheduling reconnect attempt #${this.reconnectAttempts} in ${delay / 1000} seconds...`
     )
+    this.emit('reconnect-scheduled', this.reconnectAttempts, delay)
 
     // 既存のタイマーをクリア
     if (this.reconnectTimer) {
@@ -260,14 +570,14 @@ export class WebSocketMonitor {
 
     return new Promise((resolve) => {
       this.reconnectTimer = setTimeout(() => {
+        // 接続に失敗した場合に次の再接続をスケジュールできるよう、接続前に解除する
+        this.isReconnecting = false
         this.connect()
           .then(() => {
-            this.isReconnecting = false
             resolve()
           })
           .catch((error: unknown) => {
             console.error('[MONITOR] Error during reconnect:', error)
-            this.isReconnecting = false
             resolve()
           })
       }, delay)
@@ -300,26 +610,129 @@ export class WebSocketMonitor {
     }
 
     this.healthCheckTimer = setInterval(() => {
-      this.performHealthCheck()
+      this.performHealthCheck().catch((error: unknown) => {
+        console.error('[MONITOR] Error during health check:', error)
+      })
     }, this.HEALTH_CHECK_INTERVAL)
   }
 
+  /**
+   * 接続後またはイベント受信後からイベントを受信していない時間を求める
+   *
+   * @param now 現在日時（エポックミリ秒）
+   * @returns イベントを受信していない時間（ミリ秒、接続していない場合は null）
+   */
+  private getSilentMs(now: number): number | null {
+    if (!this.connectedAt) {
+      return null
+    }
+
+    const since = Math.max(
+      this.connectedAt.getTime(),
+      this.lastEventTime?.getTime() ?? 0
+    )
+    return now - since
+  }
+
   /**
    * ヘルスチェックを実行する
+   *
+   * 接続中の場合は接続の死活を判定し、切れている（dead）と判定した場合は強制的に再接続する。
+   * イベントを受信していない（stale）だけの場合は、イベントの少ないアカウントでも
+   * 正常な接続を作り直さないよう、記録のみ行う。
    */
-  private performHealthCheck(): void {
-    if (!this.lastEventTime) {
-      // まだイベントを受信していない場合はスキップ
+  private async performHealthCheck(): Promise<void> {
+    if (this.isCheckingLiveness) {
       return
     }
 
-    const now = new Date()
-    const timeSinceLastEvent = now.getTime() - this.lastEventTime.getTime()
+    this.isCheckingLiveness = true
+    try {
+      const previous = this.liveness
+      const verdict = await this.checkLiveness()
+      this.liveness = verdict
+      this.livenessCheckedAt = new Date()
+
+      if (verdict === 'dead') {
+        this.forceReconnect()
+      } else if (verdict === 'stale' && previous !== 'stale') {
+        const silentMs = this.getSilentMs(Date.now()) ?? 0
+        console.warn(
+          `[MONITOR] No events received for ${Math.floor(silentMs / 1000 / 60)} minutes while the connection is alive. Last event: ${this.lastEventTime?.toISOString() ?? 'none'}`
+        )
+        this.emit('stale', silentMs)
+      }
+    } finally {
+      this.isCheckingLiveness = false
+    }
+  }
 
-    if (timeSinceLastEvent > this.EVENT_TIMEOUT_WARNING) {
-      console.warn(
-        `[MONITOR] WARNING: No events received for ${timeSinceLastEvent / 1000 / 60 / 60} hours. Last event: ${this.lastEventTime.toISOString()}`
-      )
+  /**
+   * 接続の死活を判定する
+   *
+   * @returns 死活判定
+   */
+  private async checkLiveness(): Promise<LivenessVerdict> {
+    const vrchat = this.vrchat
+    if (this.state !== 'connected' || !vrchat) {
+      return 'not-connected'
     }
+
+    if (!vrchat.pipeline.connected) {
+      console.warn('[MONITOR] WebSocket is no longer open')
+      return 'dead'
+    }
+
+    // 一定間隔で API に到達できるかを確認し、連続して失敗した場合は切れていると判定する
+    const { probeIntervalMs, staleThresholdMs } = this.config.websocketLiveness
+    const now = Date.now()
+    if (
+      probeIntervalMs > 0 &&
+      (!this.lastProbeAt || now - this.lastProbeAt.getTime() >= probeIntervalMs)
+    ) {
+      this.lastProbeAt = new Date()
+      this.lastProbeOk = await checkSession(vrchat)
+      this.probeFailures = this.lastProbeOk ? 0 : this.probeFailures + 1
+
+      if (this.probeFailures >= this.PROBE_FAILURE_THRESHOLD) {
+        console.warn(
+          `[MONITOR] VRChat API probe failed ${this.probeFailures} times in a row`
+        )
+        return 'dead'
+      }
+    }
+
+    const silentMs = this.getSilentMs(now)
+    if (
+      staleThresholdMs > 0 &&
+      silentMs !== null &&
+      silentMs > staleThresholdMs
+    ) {
+      return 'stale'
+    }
+
+    return 'alive'
+  }
+
+  /**
+   * 切れていると判定した接続を閉じて再接続する
+   */
+  private forceReconnect(): void {
+    if (this.state !== 'connected') {
+      return
+    }
+
+    const reason: DeadReason =
+      this.vrchat?.pipeline.connected === false
+        ? 'socket-closed'
+        : 'probe-failed'
+    console.warn(
+      `[MONITOR] Connection judged dead (${reason}), forcing reconnect...`
+    )
+    this.forcedReconnects++
+    this.lastForcedReconnect = { reason, at: new Date().toISOString() }
+    forcedReconnectsCounter.inc({ reason })
+    this.emit('dead', reason)
+    this.handleDisconnect(`liveness:${reason}`, reason !== 'probe-failed')
   }
 }
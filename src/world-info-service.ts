@@ -0,0 +1,249 @@
+import * as fs from 'node:fs'
+import path from 'node:path'
+import type { VRChat } from 'vrchat'
+import { getWorldId, type ParsedLocation } from './location-parser'
+import { getWorld, type WorldInfo } from './vrchat-client'
+
+/**
+ * ワールドキャッシュファイルのパス（環境変数で上書き可能）
+ * 未指定の場合は Location データファイルと同じディレクトリに保存する
+ */
+const WORLD_CACHE_FILE_PATH =
+  process.env.WORLD_CACHE_FILE_PATH ??
+  path.join(
+    path.dirname(process.env.LOCATION_FILE_PATH ?? 'data/user-locations.json'),
+    'world-cache.json'
+  )
+
+/** 保存の debounce 時間（ミリ秒） */
+const SAVE_DEBOUNCE_MS = 1000
+
+/**
+ * キャッシュされたワールド情報
+ */
+interface CachedWorldInfo {
+  /** ワールド情報 */
+  world: WorldInfo
+  /** 取得日時（ISO 8601 形式） */
+  fetchedAt: string
+}
+
+/**
+ * ワールドキャッシュのデータ構造
+ */
+interface WorldCacheData {
+  /** ワールド ID をキーとしたワールド情報のマップ */
+  worlds: Record<string, CachedWorldInfo>
+}
+
+/**
+ * ワールド ID からワールド情報を解決するサービス
+ *
+ * VRChat API から取得したワールド情報をファイルにキャッシュし、
+ * 有効期間内は API を呼び出さずにキャッシュから返す
+ */
+export class WorldInfoService {
+  private ttlMs: number
+  private data: WorldCacheData = { worlds: {} }
+  private saveTimeout: NodeJS.Timeout | null = null
+  private pending = new Map<string, Promise<WorldInfo | null>>()
+
+  /**
+   * WorldInfoService を初期化する
+   * ファイルから既存のキャッシュを読み込む
+   *
+   * @param ttlMs キャッシュの有効期間（ミリ秒）
+   */
+  constructor(ttlMs: number) {
+    this.ttlMs = ttlMs
+    this.load()
+  }
+
+  /**
+   * ファイルからキャッシュを読み込む
+   */
+  private load(): void {
+    try {
+      if (!fs.existsSync(WORLD_CACHE_FILE_PATH)) {
+        return
+      }
+
+      const content = fs.readFileSync(WORLD_CACHE_FILE_PATH, 'utf8')
+      const parsed: unknown = JSON.parse(content)
+
+      if (!this.isValidWorldCacheData(parsed)) {
+        console.warn(
+          '[WORLD-INFO] Invalid data structure in file, starting with empty cache'
+        )
+        return
+      }
+
+      this.data = parsed
+      const pruned = this.pruneExpired()
+      console.log(
+        `[WORLD-INFO] Loaded ${Object.keys(this.data.worlds).length} world(s) from cache (${pruned} expired)`
+      )
+    } catch (error) {
+      console.error('[WORLD-INFO] Failed to load cache:', error)
+      this.data = { worlds: {} }
+    }
+  }
+
+  /**
+   * データ構造が WorldCacheData として有効かを検証する
+   *
+   * @param data 検証するデータ
+   * @returns 有効な場合は true
+   */
+  private isValidWorldCacheData(data: unknown): data is WorldCacheData {
+    if (typeof data !== 'object' || data === null) {
+      return false
+    }
+
+    const obj = data as Record<string, unknown>
+    return typeof obj.worlds === 'object' && obj.worlds !== null
+  }
+
+  /**
+   * キャッシュをファイルに保存する（debounce 付き）
+   */
+  private scheduleSave(): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout)
+    }
+
+    this.saveTimeout = setTimeout(() => {
+      this.saveNow()
+    }, SAVE_DEBOUNCE_MS)
+  }
+
+  /**
+   * 即座にキャッシュをファイルに保存する
+   */
+  private saveNow(): void {
+    try {
+      const directory = path.dirname(WORLD_CACHE_FILE_PATH)
+      if (!fs.existsSync(directory)) {
+        fs.mkdirSync(directory, { recursive: true })
+      }
+
+      this.pruneExpired()
+      fs.writeFileSync(
+        WORLD_CACHE_FILE_PATH,
+        JSON.stringify(this.data, null, 2)
+      )
+    } catch (error) {
+      console.error('[WORLD-INFO] Failed to save cache:', error)
+    }
+  }
+
+  /**
+   * キャッシュが有効期間内かどうかを判定する
+   *
+   * @param cached キャッシュされたワールド情報
+   * @returns 有効期間内の場合は true
+   */
+  private isFresh(cached: CachedWorldInfo): boolean {
+    const fetchedAt = new Date(cached.fetchedAt).getTime()
+    return Date.now() - fetchedAt < this.ttlMs
+  }
+
+  /**
+   * 有効期間を過ぎたキャッシュを削除する
+   *
+   * @returns 削除したワールドの数
+   */
+  private pruneExpired(): number {
+    let pruned = 0
+    for (const [worldId, cached] of Object.entries(this.data.worlds)) {
+      if (!this.isFresh(cached)) {
+        Reflect.deleteProperty(this.data.worlds, worldId)
+        pruned++
+      }
+    }
+    return pruned
+  }
+
+  /**
+   * Location からワールド情報を解決する
+   *
+   * キャッシュが有効期間内であればキャッシュを返す。
+   * 期限切れまたは未キャッシュの場合は API から取得し、
+   * 取得に失敗した場合は期限切れのキャッシュを返す。
+   *
+   * @param vrchat VRChat クライアント（未接続の場合は null）
+   * @param location Location の解析結果
+   * @returns ワールド情報（解決できない場合は null）
+   */
+  async resolve(
+    vrchat: VRChat | null,
+    location: ParsedLocation
+  ): Promise<WorldInfo | null> {
+    const worldId = getWorldId(location)
+    if (!worldId) {
+      return null
+    }
+
+    const cached = this.data.worlds[worldId] as CachedWorldInfo | undefined
+    if (cached && this.isFresh(cached)) {
+      return cached.world
+    }
+
+    if (!vrchat) {
+      return cached?.world ?? null
+    }
+
+    // 同じワールドへの同時リクエストは 1 回の API 呼び出しにまとめる
+    let request = this.pending.get(worldId)
+    if (!request) {
+      request = this.fetchWorld(vrchat, worldId).finally(() => {
+        this.pending.delete(worldId)
+      })
+      this.pending.set(worldId, request)
+    }
+
+    const world = await request
+    return world ?? cached?.world ?? null
+  }
+
+  /**
+   * API からワールド情報を取得してキャッシュする
+   *
+   * @param vrchat VRChat クライアント
+   * @param worldId ワールド ID
+   * @returns ワールド情報（取得できない場合は null）
+   */
+  private async fetchWorld(
+    vrchat: VRChat,
+    worldId: string
+  ): Promise<WorldInfo | null> {
+    try {
+      const world = await getWorld(vrchat, worldId)
+      if (!world) {
+        return null
+      }
+
+      this.data.worlds[worldId] = {
+        world,
+        fetchedAt: new Date().toISOString(),
+      }
+      this.scheduleSave()
+
+      return world
+    } catch (error) {
+      console.error(`[WORLD-INFO] Failed to fetch world ${worldId}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * 終了時に未保存のキャッシュを保存する
+   */
+  flush(): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout)
+      this.saveTimeout = null
+      this.saveNow()
+    }
+  }
+}